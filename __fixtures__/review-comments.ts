@@ -0,0 +1,90 @@
+/**
+ * Review comment fixtures for PRs with many comments
+ */
+
+export type ReviewCommentFixture = {
+  id: number
+  path: string
+  line: number
+  body: string
+  user: { login: string }
+  created_at: string
+  in_reply_to_id?: number
+}
+
+type ListMethod = (
+  params: Record<string, unknown>
+) => Promise<{ data: unknown[] }>
+
+/**
+ * Bot review threads with an rmcoc assessment, each followed by developer
+ * replies. Thread root IDs start at 1000, replies are numbered after them.
+ */
+export function createReviewComments(
+  threadCount: number,
+  repliesPerThread = 0
+): ReviewCommentFixture[] {
+  const comments: ReviewCommentFixture[] = []
+  let replyId = 1000 + threadCount
+
+  for (let i = 0; i < threadCount; i++) {
+    const threadId = 1000 + i
+    const timestamp = new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()
+
+    comments.push({
+      id: threadId,
+      path: `src/file-${i % 20}.ts`,
+      line: 10 + i,
+      body: `Issue ${i}\n\n---\n\`\`\`rmcoc\n{"finding": "Finding ${i}", "assessment": "Assessment ${i}", "score": 7}\n\`\`\``,
+      user: { login: 'github-actions[bot]' },
+      created_at: timestamp
+    })
+
+    for (let r = 0; r < repliesPerThread; r++) {
+      comments.push({
+        id: replyId++,
+        path: `src/file-${i % 20}.ts`,
+        line: 10 + i,
+        body: `Reply ${r} to issue ${i}`,
+        user: { login: 'developer' },
+        created_at: new Date(Date.UTC(2024, 0, 2, 0, i, r)).toISOString(),
+        in_reply_to_id: threadId
+      })
+    }
+  }
+
+  return comments
+}
+
+/**
+ * Serve comments in pages like the GitHub REST API list endpoints
+ */
+export function servePages(items: unknown[]): ListMethod {
+  return async (params) => {
+    const perPage = Number(params.per_page ?? 30)
+    const page = Number(params.page ?? 1)
+
+    return { data: items.slice((page - 1) * perPage, page * perPage) }
+  }
+}
+
+/**
+ * Minimal stand-in for `octokit.paginate` that follows page numbers until a
+ * short page is returned
+ */
+export async function paginate(
+  method: ListMethod,
+  params: Record<string, unknown>
+): Promise<unknown[]> {
+  const perPage = Number(params.per_page ?? 30)
+  const results: unknown[] = []
+
+  for (let page = 1; ; page++) {
+    const { data } = await method({ ...params, page })
+    results.push(...data)
+
+    if (data.length < perPage) {
+      return results
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the check run reporter
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+import type { GitHubAPI } from '../src/github/api.js'
+import type { ReviewThread } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { CheckRunReporter, CHECK_RUN_NAME } =
+  await import('../src/github/check-run.js')
+
+const config = {
+  scoring: {
+    problemThreshold: 5,
+    blockingThreshold: 8,
+    pathRules: [{ pattern: 'docs/**', ignore: true }],
+    categoryRules: {}
+  }
+} as ReviewConfig
+
+function makeThread(
+  id: string,
+  file: string,
+  score: number,
+  status: ReviewThread['status'] = 'PENDING'
+): ReviewThread {
+  return {
+    id,
+    file,
+    line: 10,
+    status,
+    score,
+    assessment: {
+      finding: `Finding ${id}`,
+      assessment: `Assessment ${id}`,
+      score
+    },
+    original_comment: {
+      author: 'github-actions[bot]',
+      body: 'body',
+      timestamp: '2024-01-01T00:00:00Z'
+    }
+  }
+}
+
+describe('CheckRunReporter', () => {
+  const createCheckRun = jest.fn<GitHubAPI['createCheckRun']>()
+  const updateCheckRun = jest.fn<GitHubAPI['updateCheckRun']>()
+  const github = { createCheckRun, updateCheckRun } as unknown as GitHubAPI
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    createCheckRun.mockResolvedValue(42)
+    updateCheckRun.mockResolvedValue()
+  })
+
+  it('should annotate active threads by blocking status', async () => {
+    const reporter = new CheckRunReporter(github, config)
+    await reporter.start('abc123', true)
+
+    await reporter.update(
+      [
+        makeThread('1', 'src/a.ts', 9),
+        makeThread('2', 'src/b.ts', 6),
+        makeThread('3', 'src/c.ts', 9, 'RESOLVED'),
+        makeThread('4', 'docs/guide.md', 9)
+      ],
+      [{ passNumber: 1, completed: true, hasBlockingIssues: true }]
+    )
+
+    expect(createCheckRun).toHaveBeenCalledWith(
+      CHECK_RUN_NAME,
+      'abc123',
+      expect.anything()
+    )
+    const args = updateCheckRun.mock.calls[0]?.[1]
+    expect(args?.status).toBe('in_progress')
+    expect(args?.output?.annotations).toEqual([
+      expect.objectContaining({
+        path: 'src/a.ts',
+        annotation_level: 'failure'
+      }),
+      expect.objectContaining({ path: 'src/b.ts', annotation_level: 'warning' })
+    ])
+    expect(args?.output?.summary).toContain('| `src/a.ts:10` | 9 🚫 |')
+  })
+
+  it('should only send annotations for new threads', async () => {
+    const reporter = new CheckRunReporter(github, config)
+    await reporter.start('abc123', true)
+
+    const first = makeThread('1', 'src/a.ts', 9)
+    await reporter.update([first], [])
+    await reporter.complete(
+      { status: 'has_blocking_issues', issuesFound: 2, blockingIssues: 1 },
+      [first, makeThread('2', 'src/b.ts', 6)]
+    )
+
+    const completeArgs = updateCheckRun.mock.calls[1]?.[1]
+    expect(completeArgs?.conclusion).toBe('failure')
+    expect(completeArgs?.output?.annotations).toEqual([
+      expect.objectContaining({ path: 'src/b.ts' })
+    ])
+  })
+
+  it('should keep a failed gate when a manual review follows', async () => {
+    const threads = [makeThread('1', 'src/a.ts', 9)]
+    const output = {
+      status: 'has_blocking_issues',
+      issuesFound: 1,
+      blockingIssues: 1
+    } as const
+    const reporter = new CheckRunReporter(github, config)
+
+    await reporter.start('abc123', true)
+    await reporter.complete(output, threads)
+
+    await reporter.start('abc123', false)
+    await reporter.update(threads, [])
+    await expect(reporter.complete(output, threads)).resolves.toBe(false)
+
+    expect(createCheckRun).toHaveBeenCalledTimes(1)
+    expect(
+      updateCheckRun.mock.calls.map(([, args]) => args.conclusion)
+    ).toEqual(['failure'])
+  })
+
+  it('should not fail the review when the check run cannot be created', async () => {
+    createCheckRun.mockRejectedValue(new Error('Resource not accessible'))
+    const reporter = new CheckRunReporter(github, config)
+
+    await reporter.start('abc123', true)
+    await reporter.update([makeThread('1', 'src/a.ts', 9)], [])
+
+    expect(updateCheckRun).not.toHaveBeenCalled()
+  })
+
+  it('should report whether the check run was completed', async () => {
+    const output = {
+      status: 'has_blocking_issues',
+      issuesFound: 1,
+      blockingIssues: 1
+    } as const
+    const threads = [makeThread('1', 'src/a.ts', 9)]
+    const reporter = new CheckRunReporter(github, config)
+
+    await reporter.start('abc123', true)
+    await expect(reporter.complete(output, threads)).resolves.toBe(true)
+
+    updateCheckRun.mockRejectedValue(new Error('Resource not accessible'))
+    await reporter.start('def456', true)
+    await expect(reporter.complete(output, threads)).resolves.toBe(false)
+
+    createCheckRun.mockRejectedValue(new Error('Resource not accessible'))
+    await reporter.start('ghi789', true)
+    await expect(reporter.complete(output, threads)).resolves.toBe(false)
+  })
+})
@@ -3,9 +3,67 @@
  */
 
 import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { parseRepoConfig } from '../src/config/file.js'
 import { validateConfig } from '../src/config/inputs.js'
 import type { ReviewConfig } from '../src/execution/types.js'
 
+const validConfig: ReviewConfig = {
+  opencode: {
+    apiKey: 'test-key',
+    provider: 'openrouter',
+    baseUrl: null,
+    preflightCheck: true,
+    model: 'test-model',
+    fallbackModels: [],
+    enableWeb: false,
+    debugLogging: false
+  },
+  scoring: {
+    problemThreshold: 5,
+    blockingThreshold: 5,
+    pathRules: [],
+    categoryRules: {}
+  },
+  review: {
+    timeoutMs: 30 * 60 * 1000,
+    maxRetries: 1,
+    enableSuggestions: false
+  },
+  github: {
+    token: 'test-token',
+    owner: 'test-owner',
+    repo: 'test-repo',
+    prNumber: 123
+  },
+  dispute: {
+    enableHumanEscalation: false,
+    humanReviewers: []
+  },
+  security: {
+    injectionDetectionEnabled: true,
+    injectionVerificationModel: 'openai/gpt-4o-mini',
+    injectionVerificationFallbackModels: []
+  },
+  reporting: {
+    checkRun: false,
+    pullRequestReview: false,
+    sarifOutputPath: null
+  },
+  budget: {
+    maxCostUsd: null,
+    maxTokens: null,
+    maxLlmRequests: null
+  },
+  execution: {
+    mode: 'full-review',
+    isManuallyTriggered: false,
+    manualTriggerComments: {
+      enableStartComment: true,
+      enableEndComment: true
+    }
+  }
+}
+
 describe('Configuration Parser', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -14,45 +72,6 @@ describe('Configuration Parser', () => {
 
   describe('validateConfig', () => {
     it('should pass validation for valid config', () => {
-      const validConfig: ReviewConfig = {
-        opencode: {
-          apiKey: 'test-key',
-          model: 'test-model',
-          enableWeb: false,
-          debugLogging: false
-        },
-        scoring: {
-          problemThreshold: 5,
-          blockingThreshold: 5
-        },
-        review: {
-          timeoutMs: 30 * 60 * 1000,
-          maxRetries: 1
-        },
-        github: {
-          token: 'test-token',
-          owner: 'test-owner',
-          repo: 'test-repo',
-          prNumber: 123
-        },
-        dispute: {
-          enableHumanEscalation: false,
-          humanReviewers: []
-        },
-        security: {
-          injectionDetectionEnabled: true,
-          injectionVerificationModel: 'openai/gpt-4o-mini'
-        },
-        execution: {
-          mode: 'full-review',
-          isManuallyTriggered: false,
-          manualTriggerComments: {
-            enableStartComment: true,
-            enableEndComment: true
-          }
-        }
-      }
-
       expect(() => validateConfig(validConfig)).not.toThrow()
     })
 
@@ -85,6 +104,36 @@ describe('Configuration Parser', () => {
       )
     })
 
+    it('should require a base URL for openai-compatible providers', () => {
+      const invalidConfig = {
+        opencode: {
+          apiKey: '',
+          provider: 'openai-compatible',
+          baseUrl: null,
+          model: 'qwen2.5-coder'
+        }
+      } as ReviewConfig
+
+      expect(() => validateConfig(invalidConfig)).toThrow(
+        'provider_base_url is required for the openai-compatible provider'
+      )
+    })
+
+    it('should not require an API key for openai-compatible providers', () => {
+      const invalidConfig = {
+        opencode: {
+          apiKey: '',
+          provider: 'openai-compatible',
+          baseUrl: 'not a url',
+          model: 'qwen2.5-coder'
+        }
+      } as ReviewConfig
+
+      expect(() => validateConfig(invalidConfig)).toThrow(
+        'Invalid provider base URL: not a url'
+      )
+    })
+
     it('should throw error for invalid problem threshold - too high', () => {
       const invalidConfig = {
         opencode: {
@@ -145,42 +194,8 @@ describe('Configuration Parser', () => {
 
     it('should throw error for invalid PR number', () => {
       const invalidConfig: ReviewConfig = {
-        opencode: {
-          apiKey: 'test-key',
-          model: 'test-model',
-          enableWeb: false,
-          debugLogging: false
-        },
-        scoring: {
-          problemThreshold: 5,
-          blockingThreshold: 5
-        },
-        review: {
-          timeoutMs: 30 * 60 * 1000,
-          maxRetries: 1
-        },
-        github: {
-          token: 'test-token',
-          owner: 'test-owner',
-          repo: 'test-repo',
-          prNumber: 0
-        },
-        dispute: {
-          enableHumanEscalation: false,
-          humanReviewers: []
-        },
-        security: {
-          injectionDetectionEnabled: true,
-          injectionVerificationModel: 'openai/gpt-4o-mini'
-        },
-        execution: {
-          mode: 'full-review',
-          isManuallyTriggered: false,
-          manualTriggerComments: {
-            enableStartComment: true,
-            enableEndComment: true
-          }
-        }
+        ...validConfig,
+        github: { ...validConfig.github, prNumber: 0 }
       }
 
       expect(() => validateConfig(invalidConfig)).toThrow(
@@ -190,42 +205,8 @@ describe('Configuration Parser', () => {
 
     it('should throw error for missing GitHub token', () => {
       const invalidConfig: ReviewConfig = {
-        opencode: {
-          apiKey: 'test-key',
-          model: 'test-model',
-          enableWeb: false,
-          debugLogging: false
-        },
-        scoring: {
-          problemThreshold: 5,
-          blockingThreshold: 5
-        },
-        review: {
-          timeoutMs: 30 * 60 * 1000,
-          maxRetries: 1
-        },
-        github: {
-          token: '',
-          owner: 'test-owner',
-          repo: 'test-repo',
-          prNumber: 123
-        },
-        dispute: {
-          enableHumanEscalation: false,
-          humanReviewers: []
-        },
-        security: {
-          injectionDetectionEnabled: true,
-          injectionVerificationModel: 'openai/gpt-4o-mini'
-        },
-        execution: {
-          mode: 'full-review',
-          isManuallyTriggered: false,
-          manualTriggerComments: {
-            enableStartComment: true,
-            enableEndComment: true
-          }
-        }
+        ...validConfig,
+        github: { ...validConfig.github, token: '' }
       }
 
       expect(() => validateConfig(invalidConfig)).toThrow(
@@ -261,5 +242,136 @@ describe('Configuration Parser', () => {
         'Model name is required'
       )
     })
+
+    it('should include config file location for file-sourced values', () => {
+      const invalidConfig: ReviewConfig = {
+        ...validConfig,
+        scoring: { ...validConfig.scoring, problemThreshold: 7 },
+        configFile: {
+          path: '.rmcoc.yml',
+          locations: {
+            'scoring.blocking_threshold': { line: 3, column: 3 }
+          }
+        }
+      }
+
+      expect(() => validateConfig(invalidConfig)).toThrow(
+        'Blocking threshold cannot be lower than problem threshold (.rmcoc.yml:3:3)'
+      )
+    })
+  })
+
+  describe('parseRepoConfig', () => {
+    it('should parse the provider block', () => {
+      const loaded = parseRepoConfig(
+        '.rmcoc.yml',
+        [
+          'provider:',
+          '  type: openai-compatible',
+          '  base_url: http://localhost:11434/v1'
+        ].join('\n')
+      )
+
+      expect(loaded.values.provider).toEqual({
+        type: 'openai-compatible',
+        base_url: 'http://localhost:11434/v1'
+      })
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() =>
+        parseRepoConfig('.rmcoc.yml', 'provider:\n  type: bedrock')
+      ).toThrow('provider.type')
+    })
+
+    it('should parse a valid configuration file', () => {
+      const loaded = parseRepoConfig(
+        '.rmcoc.yml',
+        [
+          'model: openai/gpt-4o',
+          'scoring:',
+          '  problem_threshold: 6',
+          '  blocking_threshold: 8',
+          'dispute:',
+          '  human_reviewers:',
+          '    - alice'
+        ].join('\n')
+      )
+
+      expect(loaded.values).toEqual({
+        model: 'openai/gpt-4o',
+        scoring: { problem_threshold: 6, blocking_threshold: 8 },
+        dispute: { human_reviewers: ['alice'] }
+      })
+      expect(loaded.locations['scoring.blocking_threshold']).toEqual({
+        line: 4,
+        column: 3
+      })
+    })
+
+    it('should treat an empty file as an empty configuration', () => {
+      expect(parseRepoConfig('.rmcoc.yml', '').values).toEqual({})
+    })
+
+    it('should report schema violations with file and line', () => {
+      expect(() =>
+        parseRepoConfig(
+          '.github/rmcoc.yml',
+          ['model: openai/gpt-4o', 'review:', '  max_retries: 9'].join('\n')
+        )
+      ).toThrow(/\.github\/rmcoc\.yml:3:3: review\.max_retries/)
+    })
+
+    it('should parse category thresholds', () => {
+      const config = parseRepoConfig(
+        '.rmcoc.yml',
+        [
+          'scoring:',
+          '  categories:',
+          '    security:',
+          '      problem_threshold: 4',
+          '      blocking_threshold: 6'
+        ].join('\n')
+      )
+
+      expect(config.values.scoring?.categories).toEqual({
+        security: { problem_threshold: 4, blocking_threshold: 6 }
+      })
+    })
+
+    it('should reject unknown categories and inverted thresholds', () => {
+      expect(() =>
+        parseRepoConfig(
+          '.rmcoc.yml',
+          'scoring:\n  categories:\n    naming:\n      blocking_threshold: 6'
+        )
+      ).toThrow(/scoring\.categories/)
+      expect(() =>
+        parseRepoConfig(
+          '.rmcoc.yml',
+          [
+            'scoring:',
+            '  categories:',
+            '    style:',
+            '      problem_threshold: 8',
+            '      blocking_threshold: 6'
+          ].join('\n')
+        )
+      ).toThrow(
+        /\.rmcoc\.yml:5:7: scoring\.categories\.style\.blocking_threshold/
+      )
+    })
+
+    it('should reject unknown keys', () => {
+      expect(() =>
+        parseRepoConfig('.rmcoc.yml', 'openrouter_api_key: secret')
+      ).toThrow(/\.rmcoc\.yml:1:1/)
+    })
+
+    it('should report YAML syntax errors with file and line', () => {
+      expect(() =>
+        parseRepoConfig('.rmcoc.yml', 'scoring:\n  problem_threshold: [5')
+      ).toThrow(/Invalid YAML in configuration file:\n\.rmcoc\.yml:\d+:\d+/)
+    })
   })
 })
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for diff parsing, line mapping, comment anchoring and suggestion
+ * validation
+ */
+
+import {
+  DiffIndex,
+  mapLineThroughHunks,
+  parsePatch
+} from '../src/github/diff.js'
+import { resolveCommentAnchor } from '../src/trpc/comment-anchor.js'
+import { prepareSuggestion } from '../src/trpc/suggestion.js'
+
+// Hunks with three context lines, as GitHub returns them
+const PATCH = [
+  '@@ -8,7 +8,8 @@ export function example() {',
+  ' function example() {',
+  '   // example',
+  '   const a = 1',
+  '-  const b = 2',
+  '+  const b = 3',
+  '+  const c = 4',
+  '   return a + b',
+  ' }',
+  ' ',
+  '@@ -37,4 +38,4 @@ export function example() {',
+  ' function last() {',
+  '   return 1',
+  ' }',
+  '-old',
+  '+new',
+  '\\ No newline at end of file'
+].join('\n')
+
+describe('parsePatch', () => {
+  it('should track old and new line numbers per hunk', () => {
+    const hunks = parsePatch(PATCH)
+
+    expect(hunks).toHaveLength(2)
+    expect(hunks[0]).toMatchObject({
+      oldStart: 8,
+      oldLines: 7,
+      newStart: 8,
+      newLines: 8
+    })
+    expect(hunks[0]?.lines).toEqual([
+      { type: 'context', oldLine: 8, newLine: 8 },
+      { type: 'context', oldLine: 9, newLine: 9 },
+      { type: 'context', oldLine: 10, newLine: 10 },
+      { type: 'removed', oldLine: 11 },
+      { type: 'added', newLine: 11 },
+      { type: 'added', newLine: 12 },
+      { type: 'context', oldLine: 12, newLine: 13 },
+      { type: 'context', oldLine: 13, newLine: 14 },
+      { type: 'context', oldLine: 14, newLine: 15 }
+    ])
+    expect(hunks[1]).toMatchObject({ newStart: 38, newLines: 4 })
+    expect(hunks[1]?.lines).toHaveLength(5)
+  })
+})
+
+describe('mapLineThroughHunks', () => {
+  const hunks = parsePatch(PATCH)
+
+  it('should shift lines by the changes above them', () => {
+    expect(mapLineThroughHunks(hunks, 5)).toEqual({ status: 'kept', line: 5 })
+    expect(mapLineThroughHunks(hunks, 12)).toEqual({ status: 'kept', line: 13 })
+    expect(mapLineThroughHunks(hunks, 20)).toEqual({ status: 'kept', line: 21 })
+    expect(mapLineThroughHunks(hunks, 50)).toEqual({ status: 'kept', line: 51 })
+  })
+
+  it('should report rewritten lines as replaced', () => {
+    expect(mapLineThroughHunks(hunks, 11)).toEqual({
+      status: 'removed',
+      replaced: true
+    })
+    expect(mapLineThroughHunks(hunks, 40)).toEqual({
+      status: 'removed',
+      replaced: true
+    })
+  })
+
+  it('should report deleted lines as not replaced', () => {
+    const deletion = parsePatch(
+      ['@@ -3,3 +3 @@', ' keep', '-gone', '-also gone'].join('\n')
+    )
+
+    expect(mapLineThroughHunks(deletion, 4)).toEqual({
+      status: 'removed',
+      replaced: false
+    })
+    expect(mapLineThroughHunks(deletion, 7)).toEqual({
+      status: 'kept',
+      line: 5
+    })
+  })
+
+  it('should not shift lines above a pure insertion', () => {
+    const insertion = parsePatch(['@@ -5,0 +6,2 @@', '+a', '+b'].join('\n'))
+
+    expect(mapLineThroughHunks(insertion, 5)).toEqual({
+      status: 'kept',
+      line: 5
+    })
+    expect(mapLineThroughHunks(insertion, 6)).toEqual({
+      status: 'kept',
+      line: 8
+    })
+  })
+})
+
+describe('prepareSuggestion', () => {
+  const diffIndex = new DiffIndex([
+    { filename: 'src/example.ts', status: 'modified', patch: PATCH }
+  ])
+
+  it('should render a suggestion anchored to the replaced range', () => {
+    const result = prepareSuggestion(
+      'src/example.ts',
+      { startLine: 11, endLine: 12, replacement: '  const b = 5\n' },
+      diffIndex
+    )
+
+    expect(result).toEqual({
+      valid: true,
+      block: '```suggestion\n  const b = 5\n```',
+      startLine: 11,
+      line: 12
+    })
+  })
+
+  it('should use a longer fence when the replacement contains one', () => {
+    const result = prepareSuggestion(
+      'src/example.ts',
+      { startLine: 11, endLine: 11, replacement: '```ts' },
+      diffIndex
+    )
+
+    expect(result).toMatchObject({
+      valid: true,
+      block: '````suggestion\n```ts\n````',
+      line: 11
+    })
+  })
+
+  it('should reject ranges spanning beyond a hunk', () => {
+    const result = prepareSuggestion(
+      'src/example.ts',
+      { startLine: 13, endLine: 20, replacement: 'x' },
+      diffIndex
+    )
+
+    expect(result.valid).toBe(false)
+  })
+
+  it('should reject files outside the pull request', () => {
+    const result = prepareSuggestion(
+      'src/other.ts',
+      { startLine: 1, endLine: 1, replacement: 'x' },
+      diffIndex
+    )
+
+    expect(result).toEqual({
+      valid: false,
+      reason: 'src/other.ts is not changed in this PR'
+    })
+  })
+})
+
+describe('resolveCommentAnchor', () => {
+  const diffIndex = new DiffIndex([
+    { filename: 'src/example.ts', status: 'modified', patch: PATCH },
+    { filename: 'assets/logo.png', status: 'added' }
+  ])
+
+  it('should keep lines inside a hunk', () => {
+    expect(
+      resolveCommentAnchor('src/example.ts', { line: 13 }, diffIndex)
+    ).toEqual({ valid: true, startLine: undefined, line: 13 })
+  })
+
+  it('should snap lines just outside a hunk to its edge', () => {
+    expect(
+      resolveCommentAnchor('src/example.ts', { line: 17 }, diffIndex)
+    ).toEqual({ valid: true, startLine: undefined, line: 15, snappedFrom: 17 })
+    expect(
+      resolveCommentAnchor('src/example.ts', { line: 35 }, diffIndex)
+    ).toEqual({ valid: true, startLine: undefined, line: 38, snappedFrom: 35 })
+  })
+
+  it('should clamp a range to the hunk of its last line', () => {
+    expect(
+      resolveCommentAnchor(
+        'src/example.ts',
+        { startLine: 5, line: 12 },
+        diffIndex
+      )
+    ).toEqual({ valid: true, startLine: 8, line: 12 })
+  })
+
+  it('should list commentable ranges for lines far from the diff', () => {
+    expect(
+      resolveCommentAnchor('src/example.ts', { line: 26 }, diffIndex)
+    ).toEqual({
+      valid: false,
+      reason: 'Line 26 of src/example.ts is not part of the diff',
+      commentableRanges: [
+        { startLine: 8, endLine: 15 },
+        { startLine: 38, endLine: 41 }
+      ]
+    })
+  })
+
+  it('should validate deleted lines against the base version', () => {
+    expect(
+      resolveCommentAnchor(
+        'src/example.ts',
+        { line: 11, side: 'LEFT' },
+        diffIndex
+      )
+    ).toMatchObject({ valid: true, line: 11 })
+    expect(
+      resolveCommentAnchor(
+        'src/example.ts',
+        { line: 34, side: 'LEFT' },
+        diffIndex
+      )
+    ).toMatchObject({ valid: true, line: 37, snappedFrom: 34 })
+  })
+
+  it('should accept any line of files without a patch', () => {
+    expect(
+      resolveCommentAnchor('assets/logo.png', { line: 1 }, diffIndex)
+    ).toMatchObject({ valid: true, line: 1 })
+  })
+})
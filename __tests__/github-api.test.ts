@@ -0,0 +1,199 @@
+/**
+ * Unit tests for GitHubAPI review comment batching
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import {
+  createReviewComments,
+  paginate,
+  servePages
+} from '../__fixtures__/review-comments.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const mockOctokit = {
+  pulls: {
+    get: jest.fn<(...args: any[]) => Promise<any>>(),
+    createReview: jest.fn<(...args: any[]) => Promise<any>>(),
+    createReviewComment: jest.fn<(...args: any[]) => Promise<any>>(),
+    createReplyForReviewComment: jest.fn<(...args: any[]) => Promise<any>>(),
+    listCommentsForReview: jest.fn<(...args: any[]) => Promise<any>>(),
+    listReviewComments: jest.fn<(...args: any[]) => Promise<any>>()
+  },
+  paginate: jest.fn<(...args: any[]) => Promise<any>>()
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('../src/github/throttling.js', () => ({
+  createOctokit: jest.fn(() => mockOctokit)
+}))
+
+const { GitHubAPI, isPendingCommentId } = await import('../src/github/api.js')
+
+const config = {
+  github: {
+    token: 'test-token',
+    owner: 'test-owner',
+    repo: 'test-repo',
+    prNumber: 123
+  }
+} as ReviewConfig
+
+describe('GitHubAPI review batching', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockOctokit.pulls.get.mockResolvedValue({ data: { head: { sha: 'abc' } } })
+  })
+
+  it('should post comments immediately when not batching', async () => {
+    mockOctokit.pulls.createReviewComment.mockResolvedValue({
+      data: { id: 1 }
+    })
+    const github = new GitHubAPI(config)
+
+    const id = await github.postReviewComment({
+      path: 'src/a.ts',
+      line: 3,
+      body: 'Issue'
+    })
+
+    expect(id).toBe('1')
+    expect(mockOctokit.pulls.createReview).not.toHaveBeenCalled()
+  })
+
+  it('should submit queued comments as a single review', async () => {
+    mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 99 } })
+    mockOctokit.paginate.mockResolvedValue([
+      { id: 11, path: 'src/a.ts', body: 'First' },
+      { id: 12, path: 'src/b.ts', body: 'Second' }
+    ])
+    const github = new GitHubAPI(config)
+
+    github.startReviewBatch()
+    const first = await github.postReviewComment({
+      path: 'src/a.ts',
+      line: 3,
+      body: 'First'
+    })
+    const second = await github.postReviewComment({
+      path: 'src/b.ts',
+      line: 7,
+      body: 'Second'
+    })
+
+    expect(isPendingCommentId(first)).toBe(true)
+    expect(mockOctokit.pulls.createReviewComment).not.toHaveBeenCalled()
+
+    const mapping = await github.submitReviewBatch('Pass 1 summary')
+
+    expect(mockOctokit.pulls.createReview).toHaveBeenCalledTimes(1)
+    expect(mockOctokit.pulls.createReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        commit_id: 'abc',
+        event: 'COMMENT',
+        body: 'Pass 1 summary',
+        comments: [
+          expect.objectContaining({ path: 'src/a.ts', line: 3 }),
+          expect.objectContaining({ path: 'src/b.ts', line: 7 })
+        ]
+      })
+    )
+    expect(mapping.get(first)).toBe('11')
+    expect(mapping.get(second)).toBe('12')
+  })
+
+  it('should fall back to individual comments when the review fails', async () => {
+    mockOctokit.pulls.createReview.mockRejectedValue(new Error('Server Error'))
+    mockOctokit.pulls.createReviewComment
+      .mockResolvedValueOnce({ data: { id: 21 } })
+      .mockResolvedValueOnce({ data: { id: 22 } })
+    const github = new GitHubAPI(config)
+
+    github.startReviewBatch()
+    const first = await github.postReviewComment({
+      path: 'src/a.ts',
+      line: 3,
+      body: 'First'
+    })
+    const second = await github.postReviewComment({
+      path: 'src/b.ts',
+      line: 7,
+      body: 'Second'
+    })
+    const mapping = await github.submitReviewBatch('Pass 1 summary')
+
+    expect(mockOctokit.pulls.createReviewComment).toHaveBeenCalledTimes(2)
+    expect(mapping.get(first)).toBe('21')
+    expect(mapping.get(second)).toBe('22')
+  })
+
+  it('should submit the batch early when replying to a queued comment', async () => {
+    mockOctokit.pulls.createReview.mockResolvedValue({ data: { id: 99 } })
+    mockOctokit.paginate.mockResolvedValue([
+      { id: 31, path: 'src/a.ts', body: 'First' }
+    ])
+    const github = new GitHubAPI(config)
+
+    github.startReviewBatch()
+    const pendingId = await github.postReviewComment({
+      path: 'src/a.ts',
+      line: 3,
+      body: 'First'
+    })
+    await github.replyToComment(pendingId, 'Follow-up')
+
+    expect(mockOctokit.pulls.createReplyForReviewComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 31 })
+    )
+
+    const mapping = await github.submitReviewBatch('Pass 1 summary')
+    expect(mockOctokit.pulls.createReview).toHaveBeenCalledTimes(1)
+    expect(mapping.get(pendingId)).toBe('31')
+  })
+})
+
+describe('GitHubAPI review comment index', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockOctokit.paginate.mockImplementation(paginate)
+    mockOctokit.pulls.listReviewComments.mockImplementation(
+      servePages(createReviewComments(290, 1))
+    )
+  })
+
+  it('should share one paginated fetch across thread lookups', async () => {
+    const github = new GitHubAPI(config)
+
+    const hasNewReply = await github.hasNewDeveloperReply('1289')
+    const comments = await github.getThreadComments('1289')
+
+    expect(hasNewReply).toBe(true)
+    expect(comments.map((c) => c.id)).toEqual([1289, 1579])
+    expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(6)
+  })
+
+  it('should serve many threads from one paginated fetch', async () => {
+    const github = new GitHubAPI(config)
+
+    const threads = await github.getThreadsComments(['1000', '1289', '999'])
+
+    expect(threads.get('1289')?.map((c) => c.id)).toEqual([1289, 1579])
+    expect(threads.get('999')).toEqual([])
+    expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(6)
+  })
+
+  it('should refetch comments after replying to a thread', async () => {
+    mockOctokit.pulls.createReplyForReviewComment.mockResolvedValue({
+      data: { id: 2000 }
+    })
+    const github = new GitHubAPI(config)
+
+    await github.getThreadComments('1000')
+    await github.replyToComment('1000', 'Follow-up')
+    await github.getThreadComments('1000')
+
+    expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(12)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for merging action inputs with the repository configuration file
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+const github = {
+  context: {
+    eventName: 'pull_request',
+    payload: {
+      action: 'opened',
+      pull_request: { number: 42, base: { sha: 'base-sha' } }
+    } as Record<string, unknown>,
+    repo: { owner: 'test-owner', repo: 'test-repo' }
+  }
+}
+
+// Configuration files committed on the base branch, keyed by path
+let baseFiles: Record<string, string> = {}
+
+const mockOctokit = {
+  repos: {
+    getContent: jest.fn(async ({ path }: { path: string }) => {
+      if (!(path in baseFiles)) {
+        throw Object.assign(new Error('Not Found'), { status: 404 })
+      }
+      return { data: baseFiles[path] }
+    })
+  },
+  pulls: {
+    get: jest.fn(async () => ({ data: { base: { sha: 'issue-base-sha' } } }))
+  }
+}
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('@actions/github', () => github)
+jest.unstable_mockModule('../src/github/throttling.js', () => ({
+  createOctokit: jest.fn(() => mockOctokit)
+}))
+
+const { parseInputs, validateConfig } = await import('../src/config/inputs.js')
+
+const inputs: Record<string, string> = {
+  github_token: 'test-token',
+  openrouter_api_key: 'test-key'
+}
+
+describe('parseInputs', () => {
+  const pullRequestPayload = github.context.payload
+
+  beforeEach(() => {
+    baseFiles = {}
+    github.context.eventName = 'pull_request'
+    github.context.payload = pullRequestPayload
+    mockOctokit.repos.getContent.mockClear()
+    mockOctokit.pulls.get.mockClear()
+    core.getInput.mockImplementation((name) => inputs[name] ?? '')
+  })
+
+  it('reads the configuration file from the base commit', async () => {
+    baseFiles['.github/rmcoc.yml'] = 'scoring:\n  problem_threshold: 7\n'
+
+    const config = await parseInputs()
+
+    expect(config.scoring.problemThreshold).toBe(7)
+    expect(config.configFile?.path).toBe('.github/rmcoc.yml')
+    expect(mockOctokit.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '.rmcoc.yml', ref: 'base-sha' })
+    )
+    expect(mockOctokit.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '.github/rmcoc.yml', ref: 'base-sha' })
+    )
+  })
+
+  it('resolves the base commit of pull request comments', async () => {
+    github.context.eventName = 'issue_comment'
+    github.context.payload = {
+      action: 'created',
+      issue: { number: 42, pull_request: {} },
+      comment: { id: 1, body: 'hello', user: { login: 'someone' } }
+    }
+
+    await expect(parseInputs()).rejects.toThrow('no bot mention was found')
+
+    expect(mockOctokit.pulls.get).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 42 })
+    )
+    expect(mockOctokit.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'issue-base-sha' })
+    )
+  })
+
+  it('fails when the configuration file cannot be read', async () => {
+    mockOctokit.repos.getContent.mockRejectedValueOnce(
+      Object.assign(new Error('Server Error'), { status: 500 })
+    )
+
+    await expect(parseInputs()).rejects.toThrow(
+      'Failed to read .rmcoc.yml at base-sh: Server Error'
+    )
+  })
+
+  it('reports the file location of invalid file values', async () => {
+    baseFiles['.rmcoc.yml'] =
+      'scoring:\n  problem_threshold: 8\n  blocking_threshold: 5\n'
+
+    const config = await parseInputs()
+
+    expect(config.configFile?.path).toBe('.rmcoc.yml')
+    expect(() => validateConfig(config)).toThrow(
+      'Blocking threshold cannot be lower than problem threshold (.rmcoc.yml:3:3)'
+    )
+  })
+
+  it('keeps the review fallback models away from classification calls', async () => {
+    core.getInput.mockImplementation(
+      (name) =>
+        ({ ...inputs, fallback_models: 'openai/gpt-4o, openai/o3' })[name] ?? ''
+    )
+    baseFiles['.rmcoc.yml'] =
+      'security:\n  injection_verification_fallback_models:\n    - small/model\n'
+
+    const config = await parseInputs()
+
+    expect(config.opencode.fallbackModels).toEqual([
+      'openai/gpt-4o',
+      'openai/o3'
+    ])
+    expect(config.security.injectionVerificationFallbackModels).toEqual([
+      'small/model'
+    ])
+  })
+})
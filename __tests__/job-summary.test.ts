@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the GitHub job summary
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { FindingCategory } from '../src/config/constants.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+import type { ProcessState, ReviewThread } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildJobSummary, countFindingsByCategory, formatDuration } =
+  await import('../src/github/job-summary.js')
+
+const config = {
+  scoring: {
+    problemThreshold: 5,
+    blockingThreshold: 8,
+    pathRules: [],
+    categoryRules: {}
+  }
+} as unknown as ReviewConfig
+
+function createThread(
+  id: string,
+  file: string,
+  score: number,
+  status: ReviewThread['status'] = 'PENDING'
+): ReviewThread {
+  return {
+    id,
+    file,
+    line: 10,
+    status,
+    score,
+    assessment: { finding: 'Finding', assessment: 'Assessment', score },
+    original_comment: {
+      author: 'github-actions[bot]',
+      body: 'Body',
+      timestamp: '2024-01-01T00:00:00Z'
+    }
+  }
+}
+
+function withCategory(
+  thread: ReviewThread,
+  category: FindingCategory
+): ReviewThread {
+  return { ...thread, assessment: { ...thread.assessment, category } }
+}
+
+const state: ProcessState = {
+  version: 1,
+  prNumber: 1,
+  lastCommitSha: 'abc',
+  threads: [
+    createThread('1', 'src/a.ts', 6),
+    createThread('2', 'src/b.ts', 9),
+    createThread('3', 'src/a.ts', 8, 'DISPUTED'),
+    createThread('4', 'src/a.ts', 7, 'RESOLVED')
+  ],
+  passes: [
+    { passNumber: 2, completed: true, hasBlockingIssues: false },
+    { passNumber: 1, completed: true, hasBlockingIssues: true }
+  ],
+  metadata: {
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+}
+
+const noUsage = {
+  byCategory: [],
+  total: {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0
+  }
+}
+
+describe('buildJobSummary', () => {
+  it('should report tasks, passes, thread counts and findings by file', () => {
+    const summary = buildJobSummary({
+      config,
+      results: [
+        {
+          type: 'full-review',
+          success: true,
+          issuesFound: 3,
+          blockingIssues: 2,
+          durationMs: 185000,
+          model: 'openai/gpt-4o'
+        }
+      ],
+      state,
+      auditLog: [],
+      usage: noUsage
+    })
+
+    expect(summary).toContain('✅ **1 task(s) completed**')
+    expect(summary).toContain(
+      '| full-review | ✅ | 3m 5s | 3 | 2 | `openai/gpt-4o` |'
+    )
+    expect(summary).toMatch(/\| 1 \| ✅ Completed \| Yes \|\n\| 2 \|/)
+    expect(summary).toContain('| 2 | 1 | 0 | 1 |')
+    expect(summary).toMatch(
+      /\| `src\/b\.ts` \| 1 \| 1 \| 9 \|\n\| `src\/a\.ts` \| 2 \| 1 \| 8, 6 \|/
+    )
+    expect(summary).not.toContain('### Failures')
+    expect(summary).not.toContain('### LLM Usage')
+  })
+
+  it('should list injection detections and failures', () => {
+    const summary = buildJobSummary({
+      config: null,
+      results: [
+        {
+          type: 'question-answering',
+          success: false,
+          issuesFound: 0,
+          blockingIssues: 0,
+          error: 'Question answering failed: timeout'
+        }
+      ],
+      state: null,
+      auditLog: [
+        {
+          timestamp: '2024-01-01T00:00:00Z',
+          toolName: 'prompt_injection_detection',
+          parameters: { threats: ['instructionOverride'] },
+          sessionId: 'injection-detector',
+          result: 'blocked',
+          reason: 'confirmed by verification model'
+        },
+        {
+          timestamp: '2024-01-01T00:00:01Z',
+          toolName: 'github_resolve_thread',
+          parameters: {},
+          sessionId: 'trpc-session'
+        }
+      ],
+      usage: noUsage
+    })
+
+    expect(summary).toContain('❌ **1 of 1 task(s) failed**')
+    expect(summary).toContain(
+      '| 2024-01-01T00:00:00Z | 🚫 Blocked | instructionOverride | confirmed by verification model |'
+    )
+    expect(summary).not.toContain('github_resolve_thread')
+    expect(summary).toContain(
+      '- **question-answering**: Question answering failed: timeout'
+    )
+  })
+
+  it('should include usage and budget exhaustion', () => {
+    const total = {
+      requests: 3,
+      promptTokens: 1000,
+      completionTokens: 100,
+      totalTokens: 1100,
+      costUsd: 0.0123
+    }
+
+    const summary = buildJobSummary({
+      config: null,
+      results: [],
+      state: null,
+      auditLog: [],
+      usage: { byCategory: [{ category: 'review', ...total }], total },
+      budgetExceeded: 'cost reached the limit',
+      skippedTasks: 2
+    })
+
+    expect(summary).toContain('| review | 3 | 1000 | 100 | $0.0123 |')
+    expect(summary).toContain('| **Total** | 3 | 1000 | 100 | $0.0123 |')
+    expect(summary).toContain(
+      '**Budget exhausted:** cost reached the limit. 2 remaining task(s) were skipped.'
+    )
+  })
+
+  it('should include retry metrics of direct LLM requests', () => {
+    const summary = buildJobSummary({
+      config: null,
+      results: [],
+      state: null,
+      auditLog: [],
+      usage: noUsage,
+      requestMetrics: {
+        requests: 5,
+        retries: 2,
+        rateLimited: 1,
+        failed: 1,
+        waitMs: 2500,
+        budgetRejected: 3
+      }
+    })
+
+    expect(summary).toContain(
+      '**Direct LLM requests:** 5 sent, 2 retried (1 rate limited), 1 failed, 3s waiting between attempts'
+    )
+    expect(summary).toContain(
+      '**Request budget exhausted:** 3 request(s) were refused.'
+    )
+  })
+})
+
+describe('countFindingsByCategory', () => {
+  it('should count active findings per category', () => {
+    const threads = [
+      withCategory(createThread('1', 'src/a.ts', 6), 'security'),
+      withCategory(createThread('2', 'src/a.ts', 9), 'security'),
+      withCategory(createThread('3', 'src/a.ts', 7, 'RESOLVED'), 'style'),
+      createThread('4', 'src/a.ts', 5)
+    ]
+
+    expect(countFindingsByCategory(threads)).toEqual({
+      security: 2,
+      correctness: 0,
+      performance: 0,
+      maintainability: 0,
+      style: 0,
+      'rule-violation': 0,
+      testing: 0,
+      uncategorized: 1
+    })
+  })
+
+  it('should list categories with open findings in the summary', () => {
+    const security = withCategory(createThread('1', 'src/a.ts', 9), 'security')
+
+    const summary = buildJobSummary({
+      config,
+      results: [],
+      state: {
+        ...state,
+        threads: [security, createThread('2', 'src/b.ts', 5)]
+      },
+      auditLog: [],
+      usage: noUsage
+    })
+
+    expect(summary).toContain('| security | 1 | 1 |\n| uncategorized | 1 | 0 |')
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format durations for humans', () => {
+    expect(formatDuration(850)).toBe('850ms')
+    expect(formatDuration(42000)).toBe('42s')
+    expect(formatDuration(3723000)).toBe('62m 3s')
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the direct LLM client and its fallback models
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { LLMClientImpl } = await import('../src/opencode/llm-client.js')
+const { clearRequestMetrics, getRequestMetrics, setRequestBudget } =
+  await import('../src/opencode/retry-policy.js')
+
+function completion(content: string | null): Response {
+  return new Response(
+    JSON.stringify({
+      choices: [{ message: { content }, finish_reason: 'stop' }]
+    }),
+    { status: 200 }
+  )
+}
+
+function requestedModels(fetchMock: jest.SpiedFunction<typeof fetch>) {
+  return fetchMock.mock.calls.map(
+    ([, init]) => (JSON.parse(String(init?.body)) as { model: string }).model
+  )
+}
+
+describe('LLMClientImpl', () => {
+  let fetchMock: jest.SpiedFunction<typeof fetch>
+
+  const client = new LLMClientImpl({
+    provider: 'openrouter',
+    apiKey: 'key',
+    baseUrl: null,
+    model: 'primary',
+    fallbackModels: ['secondary', 'tertiary'],
+    retryPolicy: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 }
+  })
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, 'fetch')
+    clearRequestMetrics()
+  })
+
+  afterEach(() => {
+    fetchMock.mockRestore()
+  })
+
+  it('uses the configured model when it answers', async () => {
+    fetchMock.mockResolvedValueOnce(completion('SAFE'))
+
+    await expect(client.complete('prompt')).resolves.toBe('SAFE')
+    expect(requestedModels(fetchMock)).toEqual(['primary'])
+  })
+
+  it('falls back on rate limits, server errors and empty content', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('Too many requests', { status: 429 }))
+      .mockResolvedValueOnce(completion(''))
+      .mockResolvedValueOnce(completion('SAFE'))
+
+    await expect(client.complete('prompt')).resolves.toBe('SAFE')
+    expect(requestedModels(fetchMock)).toEqual([
+      'primary',
+      'secondary',
+      'tertiary'
+    ])
+  })
+
+  it('does not fall back on client errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('Invalid key', { status: 401 })
+    )
+
+    await expect(client.complete('prompt')).rejects.toThrow(
+      'OpenRouter API request failed: 401'
+    )
+    expect(requestedModels(fetchMock)).toEqual(['primary'])
+  })
+
+  it('returns the empty answer of the last model', async () => {
+    fetchMock
+      .mockResolvedValueOnce(completion(null))
+      .mockResolvedValueOnce(completion(null))
+      .mockResolvedValueOnce(completion(null))
+
+    await expect(client.complete('prompt')).resolves.toBeNull()
+  })
+
+  it('throws the error of the last model', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+
+    await expect(client.complete('prompt')).rejects.toThrow(
+      'OpenRouter API request failed: 503'
+    )
+  })
+
+  it('retries a model before falling back', async () => {
+    const retrying = new LLMClientImpl({
+      provider: 'openrouter',
+      apiKey: 'key',
+      baseUrl: null,
+      model: 'primary',
+      fallbackModels: ['secondary'],
+      retryPolicy: { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 }
+    })
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('Too many requests', {
+          status: 429,
+          headers: { 'Retry-After': '0' }
+        })
+      )
+      .mockResolvedValueOnce(completion('SAFE'))
+
+    await expect(retrying.complete('prompt')).resolves.toBe('SAFE')
+    expect(requestedModels(fetchMock)).toEqual(['primary', 'primary'])
+    expect(getRequestMetrics()).toMatchObject({
+      requests: 2,
+      retries: 1,
+      rateLimited: 1
+    })
+  })
+
+  it('stops at the request budget without falling back', async () => {
+    setRequestBudget(1)
+    fetchMock.mockResolvedValueOnce(completion('SAFE'))
+
+    await expect(client.complete('prompt')).resolves.toBe('SAFE')
+    await expect(client.complete('prompt')).rejects.toThrow(
+      'the budget of 1 LLM requests is used up'
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
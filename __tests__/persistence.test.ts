@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the persisted state comment
+ */
+
+import { gzipSync } from 'node:zlib'
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { ProcessState } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const {
+  STATE_COMMENT_MARKER,
+  STATE_SCHEMA_VERSION,
+  isStateComment,
+  migrateState,
+  parseStateComment,
+  serializeStateComment
+} = await import('../src/state/persistence.js')
+
+const state: ProcessState = {
+  version: STATE_SCHEMA_VERSION,
+  prNumber: 123,
+  lastCommitSha: 'abc123',
+  threads: [
+    {
+      id: '1',
+      file: 'src/a.ts',
+      start_line: 8,
+      line: 10,
+      status: 'PENDING',
+      score: 7,
+      assessment: { finding: 'Finding', assessment: 'Assessment', score: 7 },
+      original_comment: {
+        author: 'github-actions[bot]',
+        body: 'Comment with `code` and <!-- markup -->',
+        timestamp: '2024-01-01T00:00:00Z'
+      }
+    }
+  ],
+  passes: [{ passNumber: 1, completed: true, hasBlockingIssues: false }],
+  metadata: {
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+}
+
+function encode(data: unknown): string {
+  return `${STATE_COMMENT_MARKER}\n<!-- rmcoc-state-data ${gzipSync(JSON.stringify(data)).toString('base64')} -->`
+}
+
+describe('state comment', () => {
+  it('should round-trip the full state', () => {
+    const body = serializeStateComment(state)
+
+    expect(body).not.toBeNull()
+    expect(isStateComment(body)).toBe(true)
+    expect(parseStateComment(body!)).toEqual(state)
+  })
+
+  it('should reject corrupt state data', () => {
+    expect(() =>
+      parseStateComment(
+        `${STATE_COMMENT_MARKER}\n<!-- rmcoc-state-data bm90LWd6aXA= -->`
+      )
+    ).toThrow('Failed to decode state data')
+    expect(() => parseStateComment(encode({ ...state, threads: 'x' }))).toThrow(
+      'Invalid state data'
+    )
+  })
+
+  it('should reject states from a newer schema version', () => {
+    expect(() =>
+      parseStateComment(encode({ ...state, version: STATE_SCHEMA_VERSION + 1 }))
+    ).toThrow('is newer than supported')
+  })
+})
+
+describe('migrateState', () => {
+  it('should apply migrations in order up to the current version', () => {
+    const migrated = migrateState(
+      { version: STATE_SCHEMA_VERSION - 2, legacy: true },
+      {
+        [STATE_SCHEMA_VERSION - 2]: (s) => ({
+          ...s,
+          version: (s.version as number) + 1
+        }),
+        [STATE_SCHEMA_VERSION - 1]: ({ legacy, ...s }) => ({
+          ...s,
+          converted: legacy,
+          version: STATE_SCHEMA_VERSION
+        })
+      }
+    )
+
+    expect(migrated).toEqual({
+      version: STATE_SCHEMA_VERSION,
+      converted: true
+    })
+  })
+
+  it('should fail when a migration is missing', () => {
+    expect(() =>
+      migrateState({ version: STATE_SCHEMA_VERSION - 1 }, {})
+    ).toThrow(`No migration from state schema v${STATE_SCHEMA_VERSION - 1}`)
+  })
+})
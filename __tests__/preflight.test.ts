@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the provider preflight check
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { categorizePreflightStatus, runProviderPreflight } =
+  await import('../src/opencode/preflight.js')
+const { PreflightError } = await import('../src/utils/errors.js')
+
+const openRouter = {
+  provider: 'openrouter' as const,
+  apiKey: 'key',
+  baseUrl: null
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+async function getPreflightError(
+  promise: Promise<void>
+): Promise<InstanceType<typeof PreflightError>> {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof PreflightError) {
+      return error
+    }
+    throw error
+  }
+  throw new Error('Expected the preflight check to fail')
+}
+
+describe('categorizePreflightStatus', () => {
+  it('maps HTTP errors to failure categories', () => {
+    expect(categorizePreflightStatus(401, '', null)).toBe('invalid_key')
+    expect(categorizePreflightStatus(403, '', null)).toBe('invalid_key')
+    expect(categorizePreflightStatus(402, '', null)).toBe('quota_exhausted')
+    expect(categorizePreflightStatus(429, '', null)).toBe('quota_exhausted')
+    expect(
+      categorizePreflightStatus(400, 'Your credit balance is too low', null)
+    ).toBe('quota_exhausted')
+    expect(categorizePreflightStatus(503, '', null)).toBe(
+      'provider_unavailable'
+    )
+    expect(categorizePreflightStatus(400, 'Bad request', null)).toBe('unknown')
+  })
+
+  it('uses the meaning of a 404 given by the request', () => {
+    expect(categorizePreflightStatus(404, '', 'unknown_model')).toBe(
+      'unknown_model'
+    )
+    expect(categorizePreflightStatus(404, '', null)).toBeNull()
+  })
+})
+
+describe('runProviderPreflight', () => {
+  let fetchMock: jest.SpiedFunction<typeof fetch>
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchMock.mockRestore()
+  })
+
+  it('checks the OpenRouter key and model without a completion', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { limit_remaining: 5 } }))
+      .mockResolvedValueOnce(
+        jsonResponse({ data: { endpoints: [{ name: 'OpenAI' }] } })
+      )
+
+    await runProviderPreflight(openRouter, 'openai/gpt-4o')
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://openrouter.ai/api/v1/key',
+      'https://openrouter.ai/api/v1/models/openai/gpt-4o/endpoints'
+    ])
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe('GET')
+  })
+
+  it('reports an invalid key', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ error: { message: 'No auth credentials found' } }, 401)
+    )
+
+    const error = await getPreflightError(
+      runProviderPreflight(openRouter, 'openai/gpt-4o')
+    )
+
+    expect(error.category).toBe('invalid_key')
+    expect(error.message).toContain('OpenRouter preflight failed (invalid_key)')
+  })
+
+  it('reports an exhausted credit limit', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ data: { limit_remaining: 0 } })
+    )
+
+    const error = await getPreflightError(
+      runProviderPreflight(openRouter, 'openai/gpt-4o')
+    )
+
+    expect(error.category).toBe('quota_exhausted')
+  })
+
+  it('reports unknown models', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { limit_remaining: null } }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Not found' }, 404))
+
+    const error = await getPreflightError(
+      runProviderPreflight(openRouter, 'openai/gpt-9')
+    )
+
+    expect(error.category).toBe('unknown_model')
+  })
+
+  it('reports unreachable providers as unavailable', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+
+    const error = await getPreflightError(
+      runProviderPreflight(openRouter, 'openai/gpt-4o')
+    )
+
+    expect(error.category).toBe('provider_unavailable')
+    expect(error.message).toBe(
+      'Failed to reach OpenRouter: getaddrinfo ENOTFOUND'
+    )
+  })
+
+  it('looks up the model on Anthropic', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ id: 'claude' }))
+
+    await runProviderPreflight(
+      { provider: 'anthropic', apiKey: 'key', baseUrl: null },
+      'claude-sonnet-4-20250514'
+    )
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      'https://api.anthropic.com/v1/models/claude-sonnet-4-20250514'
+    )
+  })
+
+  it('tolerates OpenAI-compatible servers without a models endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Not found', { status: 404 }))
+
+    await expect(
+      runProviderPreflight(
+        {
+          provider: 'openai-compatible',
+          apiKey: '',
+          baseUrl: 'http://localhost:8000/v1'
+        },
+        'qwen2.5-coder'
+      )
+    ).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for the LLM provider adapters
+ */
+
+import {
+  buildOpenCodeProviderSetup,
+  createChatAdapter,
+  getDisabledOpenCodeProviders,
+  getOpenCodeModelRef
+} from '../src/opencode/provider.js'
+
+const request = {
+  model: 'test-model',
+  prompt: 'Hello',
+  maxTokens: 50,
+  temperature: 0,
+  title: 'Test'
+}
+
+describe('createChatAdapter', () => {
+  it('builds OpenRouter requests with usage accounting', () => {
+    const adapter = createChatAdapter({
+      provider: 'openrouter',
+      apiKey: 'key',
+      baseUrl: null
+    })
+
+    const built = adapter.buildRequest({
+      ...request,
+      extraBody: { response_format: { type: 'json_object' } }
+    })
+
+    expect(built.url).toBe('https://openrouter.ai/api/v1/chat/completions')
+    expect(built.headers.Authorization).toBe('Bearer key')
+    expect(built.body).toEqual({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+      temperature: 0,
+      max_tokens: 50,
+      usage: { include: true },
+      response_format: { type: 'json_object' }
+    })
+  })
+
+  it('sends OpenAI-compatible requests to the base URL', () => {
+    const adapter = createChatAdapter({
+      provider: 'openai-compatible',
+      apiKey: '',
+      baseUrl: 'http://localhost:11434/v1/'
+    })
+
+    const built = adapter.buildRequest({
+      ...request,
+      maxTokens: null,
+      extraBody: { response_format: { type: 'json_object' } }
+    })
+
+    expect(built.url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(built.headers.Authorization).toBeUndefined()
+    expect(built.body).toEqual({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+      temperature: 0
+    })
+  })
+
+  it('parses OpenAI-style responses', () => {
+    const adapter = createChatAdapter({
+      provider: 'openai-compatible',
+      apiKey: 'key',
+      baseUrl: 'http://localhost:8000/v1'
+    })
+
+    expect(
+      adapter.parseResponse({
+        choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+      })
+    ).toEqual({
+      content: 'Hi',
+      finishReason: 'stop',
+      usage: { promptTokens: 3, completionTokens: 1, costUsd: undefined },
+      error: null
+    })
+  })
+
+  it('uses the Anthropic Messages API', () => {
+    const adapter = createChatAdapter({
+      provider: 'anthropic',
+      apiKey: 'key',
+      baseUrl: null
+    })
+
+    const built = adapter.buildRequest({ ...request, maxTokens: null })
+
+    expect(built.url).toBe('https://api.anthropic.com/v1/messages')
+    expect(built.headers['x-api-key']).toBe('key')
+    expect(built.headers['anthropic-version']).toBe('2023-06-01')
+    expect(built.body).toEqual({
+      model: 'test-model',
+      max_tokens: 4096,
+      temperature: 0,
+      messages: [{ role: 'user', content: 'Hello' }]
+    })
+  })
+
+  it('parses Anthropic responses', () => {
+    const adapter = createChatAdapter({
+      provider: 'anthropic',
+      apiKey: 'key',
+      baseUrl: null
+    })
+
+    expect(
+      adapter.parseResponse({
+        content: [
+          { type: 'text', text: 'Hello ' },
+          { type: 'text', text: 'there' }
+        ],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 2 }
+      })
+    ).toEqual({
+      content: 'Hello there',
+      finishReason: 'end_turn',
+      usage: { promptTokens: 10, completionTokens: 2 },
+      error: null
+    })
+  })
+})
+
+describe('buildOpenCodeProviderSetup', () => {
+  it('passes the OpenRouter key through the environment', () => {
+    const setup = buildOpenCodeProviderSetup(
+      { provider: 'openrouter', apiKey: 'key', baseUrl: null },
+      'openai/gpt-4o'
+    )
+
+    expect(setup.model).toBe('openrouter/openai/gpt-4o')
+    expect(setup.env).toEqual({ OPENROUTER_API_KEY: 'key' })
+  })
+
+  it('configures a custom OpenAI-compatible provider', () => {
+    const setup = buildOpenCodeProviderSetup(
+      {
+        provider: 'openai-compatible',
+        apiKey: 'secret',
+        baseUrl: 'http://vllm:8000/v1'
+      },
+      'qwen2.5-coder'
+    )
+
+    expect(setup.providerId).toBe('openai-compatible')
+    expect(setup.model).toBe('openai-compatible/qwen2.5-coder')
+    expect(setup.providerConfig).toMatchObject({
+      npm: '@ai-sdk/openai-compatible',
+      options: {
+        baseURL: 'http://vllm:8000/v1',
+        apiKey: '{env:RMCOC_PROVIDER_API_KEY}'
+      }
+    })
+    expect(JSON.stringify(setup.providerConfig)).not.toContain('secret')
+    expect(setup.env).toEqual({ RMCOC_PROVIDER_API_KEY: 'secret' })
+  })
+
+  it('registers fallback models with the provider', () => {
+    const setup = buildOpenCodeProviderSetup(
+      { provider: 'openrouter', apiKey: 'key', baseUrl: null },
+      'openai/gpt-4o',
+      ['anthropic/claude-sonnet-4-20250514']
+    )
+
+    expect(setup.model).toBe('openrouter/openai/gpt-4o')
+    expect(Object.keys(setup.providerConfig.models)).toEqual([
+      'openai/gpt-4o',
+      'anthropic/claude-sonnet-4-20250514'
+    ])
+  })
+
+  it('uses the Anthropic key for the anthropic provider', () => {
+    const setup = buildOpenCodeProviderSetup(
+      { provider: 'anthropic', apiKey: 'key', baseUrl: null },
+      'claude-sonnet-4-20250514'
+    )
+
+    expect(setup.model).toBe('anthropic/claude-sonnet-4-20250514')
+    expect(setup.env).toEqual({ ANTHROPIC_API_KEY: 'key' })
+  })
+})
+
+describe('getDisabledOpenCodeProviders', () => {
+  it('keeps the provider in use enabled', () => {
+    const disabled = getDisabledOpenCodeProviders('anthropic')
+
+    expect(disabled).toContain('openrouter')
+    expect(disabled).not.toContain('anthropic')
+  })
+})
+
+describe('getOpenCodeModelRef', () => {
+  it('selects the model on the configured provider', () => {
+    expect(
+      getOpenCodeModelRef(
+        {
+          provider: 'openai-compatible',
+          apiKey: '',
+          baseUrl: 'http://vllm:8000/v1'
+        },
+        'qwen2.5-coder'
+      )
+    ).toEqual({ providerID: 'openai-compatible', modelID: 'qwen2.5-coder' })
+  })
+})
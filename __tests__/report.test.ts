@@ -0,0 +1,234 @@
+/**
+ * Unit tests for the JSON run report
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+import type { ProcessState } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { REPORT_SCHEMA_VERSION, runReportSchema } =
+  await import('../src/report/schema.js')
+const { buildRunReport, writeRunReport } =
+  await import('../src/report/writer.js')
+
+const config = {
+  github: { owner: 'owner', repo: 'repo', prNumber: 7 }
+} as unknown as ReviewConfig
+
+const state: ProcessState = {
+  version: 1,
+  prNumber: 7,
+  lastCommitSha: 'abc',
+  threads: [
+    {
+      id: 'thread-1',
+      file: 'src/a.ts',
+      line: 12,
+      start_line: 10,
+      status: 'PENDING',
+      score: 8,
+      pass: 3,
+      assessment: { finding: 'SQL injection', assessment: 'Details', score: 8 },
+      original_comment: {
+        author: 'github-actions[bot]',
+        body: 'Body',
+        timestamp: '2024-01-01T00:00:00Z'
+      }
+    }
+  ],
+  passes: [
+    { passNumber: 1, completed: true, hasBlockingIssues: false },
+    { passNumber: 3, completed: true, hasBlockingIssues: true }
+  ],
+  metadata: {
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+}
+
+const usage = {
+  byCategory: [
+    {
+      category: 'review' as const,
+      requests: 3,
+      promptTokens: 100,
+      completionTokens: 20,
+      totalTokens: 120,
+      costUsd: 0.01
+    }
+  ],
+  total: {
+    requests: 3,
+    promptTokens: 100,
+    completionTokens: 20,
+    totalTokens: 120,
+    costUsd: 0.01
+  }
+}
+
+const execution = {
+  results: [
+    {
+      type: 'full-review' as const,
+      success: true,
+      issuesFound: 1,
+      blockingIssues: 1,
+      durationMs: 5000
+    }
+  ],
+  hasBlockingIssues: true,
+  totalTasks: 1,
+  reviewCompleted: true,
+  hadAutoReview: true,
+  hadManualReview: false
+}
+
+describe('buildRunReport', () => {
+  it('produces a report matching the published schema', () => {
+    const report = buildRunReport({
+      config,
+      reviewStatus: 'completed',
+      execution,
+      preflight: { status: 'passed' },
+      state,
+      passTimings: [
+        { passNumber: 2, durationMs: 1500 },
+        { passNumber: 3, durationMs: 2500 }
+      ],
+      usage
+    })
+
+    expect(runReportSchema.parse(report)).toEqual(report)
+    expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION)
+    expect(report.pullRequest).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      number: 7
+    })
+    expect(report.threads).toEqual([
+      {
+        id: 'thread-1',
+        file: 'src/a.ts',
+        line: 12,
+        startLine: 10,
+        side: 'RIGHT',
+        score: 8,
+        status: 'PENDING',
+        finding: 'SQL injection',
+        pass: 3
+      }
+    ])
+  })
+
+  it('merges persisted pass outcomes with timings from this run', () => {
+    const report = buildRunReport({
+      config,
+      reviewStatus: 'completed',
+      execution,
+      preflight: { status: 'passed' },
+      state,
+      passTimings: [
+        { passNumber: 2, durationMs: 1500 },
+        { passNumber: 3, durationMs: 2500 }
+      ],
+      usage
+    })
+
+    expect(report.passes).toEqual([
+      {
+        passNumber: 1,
+        completed: true,
+        hasBlockingIssues: false,
+        durationMs: null
+      },
+      {
+        passNumber: 2,
+        completed: false,
+        hasBlockingIssues: false,
+        durationMs: 1500
+      },
+      {
+        passNumber: 3,
+        completed: true,
+        hasBlockingIssues: true,
+        durationMs: 2500
+      }
+    ])
+  })
+
+  it('reports runs that failed before any task executed', () => {
+    const report = buildRunReport({
+      config: null,
+      reviewStatus: 'failed',
+      execution: null,
+      preflight: { status: 'skipped' },
+      state: null,
+      passTimings: [],
+      usage,
+      error: 'Missing input'
+    })
+
+    expect(runReportSchema.parse(report)).toMatchObject({
+      pullRequest: null,
+      execution: null,
+      threads: [],
+      passes: [],
+      error: 'Missing input'
+    })
+  })
+})
+
+describe('writeRunReport', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rmcoc-report-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes the validated report as JSON', async () => {
+    const path = join(dir, 'nested', 'report.json')
+    const report = buildRunReport({
+      config,
+      reviewStatus: 'completed',
+      execution,
+      preflight: { status: 'passed' },
+      state,
+      passTimings: [],
+      usage
+    })
+
+    await writeRunReport(path, report)
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual(report)
+  })
+
+  it('rejects reports that do not match the schema', async () => {
+    const report = buildRunReport({
+      config,
+      reviewStatus: 'completed',
+      execution,
+      preflight: { status: 'passed' },
+      state,
+      passTimings: [],
+      usage
+    })
+
+    await expect(
+      writeRunReport(join(dir, 'report.json'), {
+        ...report,
+        reviewStatus: 'unknown' as 'failed'
+      })
+    ).rejects.toThrow()
+  })
+})
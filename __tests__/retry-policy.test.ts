@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the shared LLM retry policy
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const {
+  clearRequestMetrics,
+  getRequestMetrics,
+  getRetryDelayMs,
+  isRetryableError,
+  parseRetryAfter,
+  setRequestBudget,
+  withRetry
+} = await import('../src/opencode/retry-policy.js')
+const { LLMRequestError, RequestBudgetError } =
+  await import('../src/utils/errors.js')
+
+const policy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 }
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isRetryableError(new LLMRequestError('limited', 429))).toBe(true)
+    expect(isRetryableError(new LLMRequestError('down', 503))).toBe(true)
+    expect(isRetryableError(new LLMRequestError('provider', null))).toBe(true)
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+  })
+
+  it('fails fast on client errors', () => {
+    expect(isRetryableError(new LLMRequestError('bad key', 401))).toBe(false)
+    expect(isRetryableError(new LLMRequestError('bad request', 400))).toBe(
+      false
+    )
+    expect(isRetryableError(new RequestBudgetError('used up'))).toBe(false)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+
+    expect(parseRetryAfter('5', now)).toBe(5000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000)
+    expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0)
+    expect(parseRetryAfter(null, now)).toBeNull()
+    expect(parseRetryAfter('soon', now)).toBeNull()
+  })
+})
+
+describe('getRetryDelayMs', () => {
+  it('backs off exponentially with jitter', () => {
+    expect(getRetryDelayMs(1, policy, null, () => 0)).toBe(500)
+    expect(getRetryDelayMs(1, policy, null, () => 1)).toBe(1000)
+    expect(getRetryDelayMs(3, policy, null, () => 1)).toBe(4000)
+    expect(getRetryDelayMs(10, policy, null, () => 1)).toBe(10000)
+  })
+
+  it('honors Retry-After up to the maximum delay', () => {
+    expect(getRetryDelayMs(1, policy, 7000)).toBe(7000)
+    expect(getRetryDelayMs(1, policy, 60000)).toBeNull()
+  })
+})
+
+describe('withRetry', () => {
+  const sleep = jest.fn(async () => {})
+
+  beforeEach(() => {
+    clearRequestMetrics()
+    sleep.mockClear()
+  })
+
+  it('retries retryable errors until the operation succeeds', async () => {
+    const operation = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new LLMRequestError('limited', 429, 2000))
+      .mockRejectedValueOnce(new LLMRequestError('down', 502))
+      .mockResolvedValueOnce('ok')
+
+    await expect(
+      withRetry(operation, {
+        description: 'Test request',
+        policy,
+        sleep,
+        random: () => 1
+      })
+    ).resolves.toBe('ok')
+
+    expect(sleep.mock.calls).toEqual([[2000], [2000]])
+    expect(getRequestMetrics()).toEqual({
+      requests: 3,
+      retries: 2,
+      rateLimited: 1,
+      failed: 0,
+      waitMs: 4000,
+      budgetRejected: 0
+    })
+  })
+
+  it('does not retry client errors', async () => {
+    const operation = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new LLMRequestError('bad key', 401))
+
+    await expect(
+      withRetry(operation, { description: 'Test request', policy, sleep })
+    ).rejects.toThrow('bad key')
+
+    expect(operation).toHaveBeenCalledTimes(1)
+    expect(sleep).not.toHaveBeenCalled()
+    expect(getRequestMetrics().failed).toBe(1)
+  })
+
+  it('gives up after the last attempt', async () => {
+    const operation = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new LLMRequestError('down', 503))
+
+    await expect(
+      withRetry(operation, { description: 'Test request', policy, sleep })
+    ).rejects.toThrow('down')
+
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+
+  it('refuses requests beyond the budget', async () => {
+    setRequestBudget(2)
+    const operation = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new LLMRequestError('down', 503))
+
+    await expect(
+      withRetry(operation, { description: 'Test request', policy, sleep })
+    ).rejects.toThrow(RequestBudgetError)
+
+    expect(operation).toHaveBeenCalledTimes(2)
+    expect(getRequestMetrics()).toMatchObject({
+      requests: 2,
+      budgetRejected: 1
+    })
+  })
+})
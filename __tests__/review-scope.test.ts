@@ -0,0 +1,221 @@
+/**
+ * Unit tests for incremental review scoping
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type {
+  CommitComparison,
+  ComparedFile,
+  GitHubAPI
+} from '../src/github/api.js'
+import type { ProcessState, ReviewThread } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildIncrementalDiff, formatCommitRangeSummary, resolveReviewScope } =
+  await import('../src/execution/review-scope.js')
+
+const completedPasses = [1, 2, 3].map((passNumber) => ({
+  passNumber,
+  completed: true,
+  hasBlockingIssues: false
+}))
+
+function createState(overrides: Partial<ProcessState> = {}): ProcessState {
+  return {
+    version: 1,
+    prNumber: 123,
+    lastCommitSha: 'aaa1111',
+    threads: [],
+    passes: completedPasses,
+    metadata: {
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z'
+    },
+    ...overrides
+  }
+}
+
+function createFile(filename: string, patch?: string): ComparedFile {
+  return { filename, status: 'modified', patch, additions: 1, deletions: 0 }
+}
+
+function createComparison(
+  overrides: Partial<CommitComparison> = {}
+): CommitComparison {
+  return {
+    status: 'ahead',
+    aheadBy: 1,
+    behindBy: 0,
+    commits: [],
+    files: [],
+    ...overrides
+  }
+}
+
+describe('resolveReviewScope', () => {
+  const compareCommits =
+    jest.fn<(base: string, head: string) => Promise<CommitComparison | null>>()
+  const github = { compareCommits } as unknown as GitHubAPI
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should review everything when no review has completed', async () => {
+    const scope = await resolveReviewScope(
+      github,
+      createState({ passes: [] }),
+      'bbb2222',
+      ['src/a.ts']
+    )
+
+    expect(scope).toEqual({
+      mode: 'full',
+      reason: 'no previously reviewed commit'
+    })
+    expect(compareCommits).not.toHaveBeenCalled()
+  })
+
+  it('should review everything when the last commit is unreachable', async () => {
+    compareCommits.mockResolvedValueOnce(null)
+
+    const scope = await resolveReviewScope(github, createState(), 'bbb2222', [
+      'src/a.ts'
+    ])
+
+    expect(scope.mode).toBe('full')
+    expect(compareCommits).toHaveBeenCalledWith('aaa1111', 'bbb2222')
+  })
+
+  it('should review everything after a force-push', async () => {
+    compareCommits.mockResolvedValueOnce(
+      createComparison({ status: 'diverged', behindBy: 2 })
+    )
+
+    const scope = await resolveReviewScope(github, createState(), 'bbb2222', [
+      'src/a.ts'
+    ])
+
+    expect(scope).toEqual({
+      mode: 'full',
+      reason: 'history was rewritten since aaa1111 (diverged)'
+    })
+  })
+
+  it('should limit the review to PR files changed since the last review', async () => {
+    const comparison = createComparison({
+      files: [createFile('src/a.ts'), createFile('docs/from-main.md')]
+    })
+    compareCommits.mockResolvedValueOnce(comparison)
+
+    const scope = await resolveReviewScope(github, createState(), 'bbb2222', [
+      'src/a.ts',
+      'src/b.ts'
+    ])
+
+    expect(scope).toEqual({
+      mode: 'incremental',
+      baseSha: 'aaa1111',
+      headSha: 'bbb2222',
+      comparison,
+      files: [createFile('src/a.ts')]
+    })
+  })
+})
+
+describe('buildIncrementalDiff', () => {
+  it('should join file patches into a unified diff', () => {
+    const diff = buildIncrementalDiff([
+      createFile('src/a.ts', '@@ -1 +1 @@\n-old\n+new'),
+      { ...createFile('img.png'), status: 'added' }
+    ])
+
+    expect(diff).toBe(
+      'diff --git a/src/a.ts b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n' +
+        'diff --git a/img.png b/img.png\n(added, no textual diff)'
+    )
+  })
+
+  it('should give up on diffs too large for a prompt', () => {
+    expect(
+      buildIncrementalDiff([createFile('big.ts', '+x\n'.repeat(30000))])
+    ).toBeNull()
+  })
+})
+
+describe('formatCommitRangeSummary', () => {
+  function createThread(
+    id: string,
+    file: string,
+    status: ReviewThread['status'] = 'PENDING'
+  ): ReviewThread {
+    return {
+      id,
+      file,
+      line: 10,
+      status,
+      score: 6,
+      assessment: { finding: 'Finding', assessment: 'Assessment', score: 6 },
+      original_comment: {
+        author: 'github-actions[bot]',
+        body: 'Body',
+        timestamp: '2024-01-01T00:00:00Z'
+      }
+    }
+  }
+
+  const comparison = createComparison({
+    aheadBy: 2,
+    commits: [
+      {
+        sha: 'ccc3333aaaa',
+        message: 'Validate input\n\nLonger body',
+        author: 'alice'
+      },
+      { sha: 'ddd4444bbbb', message: 'Rename helper', author: 'bob' }
+    ],
+    files: [
+      { ...createFile('src/a.ts'), additions: 12, deletions: 3 },
+      {
+        ...createFile('src/new-name.ts'),
+        status: 'renamed',
+        previousFilename: 'src/old-name.ts'
+      }
+    ]
+  })
+
+  it('should list commits and per-file stats', () => {
+    const summary = formatCommitRangeSummary(
+      comparison,
+      'aaa1111',
+      'bbb2222',
+      []
+    )
+
+    expect(summary).toContain('(aaa1111..bbb2222)')
+    expect(summary).toContain('- ccc3333 Validate input (alice)')
+    expect(summary).not.toContain('Longer body')
+    expect(summary).toContain('- ddd4444 Rename helper (bob)')
+    expect(summary).toContain('- src/a.ts [modified] +12/-3')
+    expect(summary).toContain(
+      '- src/new-name.ts (from src/old-name.ts) [renamed]'
+    )
+  })
+
+  it('should mark unresolved threads in changed files', () => {
+    const summary = formatCommitRangeSummary(comparison, 'aaa1111', 'bbb2222', [
+      createThread('1', 'src/a.ts'),
+      createThread('2', 'src/old-name.ts', 'DISPUTED'),
+      createThread('3', 'src/untouched.ts'),
+      createThread('4', 'src/a.ts', 'RESOLVED')
+    ])
+
+    expect(summary).toContain('Unresolved threads in changed files (2 of 3)')
+    expect(summary).toContain('- Thread 1 at src/a.ts:10 [PENDING]')
+    expect(summary).toContain('- Thread 2 at src/old-name.ts:10 [DISPUTED]')
+    expect(summary).not.toContain('Thread 3')
+    expect(summary).not.toContain('Thread 4')
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for the SARIF export of review threads
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+import type { ReviewThread } from '../src/state/manager.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildSarifLog, getSarifLevel, writeSarifFile } =
+  await import('../src/execution/sarif.js')
+
+const config = {
+  scoring: {
+    problemThreshold: 5,
+    blockingThreshold: 8,
+    pathRules: [],
+    categoryRules: {}
+  }
+} as unknown as ReviewConfig
+
+function createThread(
+  id: string,
+  score: number,
+  overrides: Partial<ReviewThread> = {}
+): ReviewThread {
+  return {
+    id,
+    file: 'src/a.ts',
+    line: 10,
+    status: 'PENDING',
+    score,
+    assessment: { finding: 'Finding', assessment: 'Assessment', score },
+    original_comment: {
+      author: 'github-actions[bot]',
+      body: 'Body',
+      timestamp: '2024-01-01T00:00:00Z'
+    },
+    ...overrides
+  }
+}
+
+describe('getSarifLevel', () => {
+  it('maps scores to SARIF levels', () => {
+    expect(getSarifLevel(config.scoring, createThread('1', 9))).toBe('error')
+    expect(getSarifLevel(config.scoring, createThread('1', 8))).toBe('error')
+    expect(getSarifLevel(config.scoring, createThread('1', 5))).toBe('warning')
+    expect(getSarifLevel(config.scoring, createThread('1', 3))).toBe('note')
+  })
+})
+
+describe('buildSarifLog', () => {
+  it('exports active threads on the head version only', () => {
+    const log = buildSarifLog(
+      [
+        createThread('1', 6),
+        createThread('2', 6, { status: 'RESOLVED' }),
+        createThread('3', 6, { side: 'LEFT' }),
+        createThread('4', 6, { status: 'DISPUTED' })
+      ],
+      config
+    )
+
+    expect(log.version).toBe('2.1.0')
+    expect(
+      log.runs[0]?.results.map((r) => r.partialFingerprints.rmcocThreadId)
+    ).toEqual(['1', '4'])
+  })
+
+  it('derives rules from the review pass', () => {
+    const log = buildSarifLog(
+      [
+        createThread('1', 6, { pass: 3 }),
+        createThread('2', 6),
+        createThread('3', 6, { pass: 3 })
+      ],
+      config
+    )
+    const run = log.runs[0]
+
+    expect(run?.tool.driver.rules.map((r) => r.id)).toEqual([
+      'rmcoc/security-compliance',
+      'rmcoc/finding'
+    ])
+    expect(run?.results.map((r) => [r.ruleId, r.ruleIndex])).toEqual([
+      ['rmcoc/security-compliance', 0],
+      ['rmcoc/finding', 1],
+      ['rmcoc/security-compliance', 0]
+    ])
+  })
+
+  it('prefers the finding category over the pass', () => {
+    const log = buildSarifLog(
+      [
+        createThread('1', 6, {
+          pass: 1,
+          assessment: {
+            finding: 'Finding',
+            assessment: 'Assessment',
+            score: 6,
+            category: 'rule-violation',
+            tags: ['layering'],
+            ruleRef: 'No DB access from UI components'
+          }
+        })
+      ],
+      config
+    )
+
+    expect(log.runs[0]?.tool.driver.rules.map((r) => r.id)).toEqual([
+      'rmcoc/rule-violation'
+    ])
+    expect(log.runs[0]?.results[0]?.properties).toMatchObject({
+      tags: ['layering'],
+      ruleRef: 'No DB access from UI components'
+    })
+  })
+
+  it('describes the finding and its location', () => {
+    const log = buildSarifLog(
+      [createThread('1', 9, { line: 14, start_line: 12 })],
+      config
+    )
+
+    expect(log.runs[0]?.results[0]).toMatchObject({
+      level: 'error',
+      message: { text: 'Finding\n\nAssessment' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/a.ts' },
+            region: { startLine: 12, endLine: 14 }
+          }
+        }
+      ],
+      properties: { score: 9, status: 'PENDING' }
+    })
+  })
+})
+
+describe('writeSarifFile', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rmcoc-sarif-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('creates missing directories and returns the result count', async () => {
+    const path = join(dir, 'reports', 'rmcoc.sarif')
+
+    const count = await writeSarifFile(
+      path,
+      [createThread('1', 6), createThread('2', 6, { status: 'RESOLVED' })],
+      config
+    )
+
+    expect(count).toBe(1)
+    expect(JSON.parse(await readFile(path, 'utf8'))).toMatchObject({
+      version: '2.1.0',
+      runs: [{ tool: { driver: { name: 'rmc-oc' } } }]
+    })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for path-scoped scoring rules
+ */
+
+import { describe, expect, it } from '@jest/globals'
+import {
+  isBlockingScore,
+  partitionReviewableFiles,
+  resolveFindingScoring,
+  resolvePathScoring
+} from '../src/config/scoring.js'
+import type { ReviewConfig } from '../src/execution/types.js'
+
+const scoring: ReviewConfig['scoring'] = {
+  problemThreshold: 5,
+  blockingThreshold: 9,
+  pathRules: [
+    { pattern: 'docs/**', ignore: true },
+    { pattern: '**/*.generated.ts', ignore: true },
+    { pattern: 'src/payments/**', blockingThreshold: 7 },
+    { pattern: 'src/payments/legacy/**', problemThreshold: 8 }
+  ],
+  categoryRules: {}
+}
+
+describe('Path Scoring', () => {
+  describe('resolvePathScoring', () => {
+    it('should fall back to global thresholds when no rule matches', () => {
+      expect(resolvePathScoring(scoring, 'src/index.ts')).toEqual({
+        ignored: false,
+        problemThreshold: 5,
+        blockingThreshold: 9
+      })
+    })
+
+    it('should apply overrides from matching rules', () => {
+      expect(resolvePathScoring(scoring, 'src/payments/charge.ts')).toEqual({
+        ignored: false,
+        problemThreshold: 5,
+        blockingThreshold: 7
+      })
+    })
+
+    it('should combine overrides from multiple matching rules', () => {
+      expect(
+        resolvePathScoring(scoring, 'src/payments/legacy/refund.ts')
+      ).toEqual({
+        ignored: false,
+        problemThreshold: 8,
+        blockingThreshold: 7
+      })
+    })
+
+    it('should let later rules override earlier ones', () => {
+      const overridden = resolvePathScoring(
+        {
+          ...scoring,
+          pathRules: [
+            { pattern: 'src/**', blockingThreshold: 6 },
+            { pattern: 'src/api/**', blockingThreshold: 8 }
+          ]
+        },
+        'src/api/routes.ts'
+      )
+
+      expect(overridden.blockingThreshold).toBe(8)
+    })
+
+    it('should mark ignored files', () => {
+      expect(resolvePathScoring(scoring, 'docs/guide.md').ignored).toBe(true)
+      expect(
+        resolvePathScoring(scoring, 'src/client/api.generated.ts').ignored
+      ).toBe(true)
+    })
+  })
+
+  describe('partitionReviewableFiles', () => {
+    it('should split files into reviewable and ignored', () => {
+      expect(
+        partitionReviewableFiles(scoring, [
+          'src/index.ts',
+          'docs/README.md',
+          'src/types.generated.ts'
+        ])
+      ).toEqual({
+        reviewable: ['src/index.ts'],
+        ignored: ['docs/README.md', 'src/types.generated.ts']
+      })
+    })
+  })
+
+  describe('isBlockingScore', () => {
+    it('should use the path blocking threshold', () => {
+      expect(isBlockingScore(scoring, 'src/payments/charge.ts', 7)).toBe(true)
+      expect(isBlockingScore(scoring, 'src/index.ts', 7)).toBe(false)
+    })
+
+    it('should never block on ignored files', () => {
+      expect(isBlockingScore(scoring, 'docs/guide.md', 10)).toBe(false)
+    })
+
+    it('should use the category blocking threshold', () => {
+      const withCategories: ReviewConfig['scoring'] = {
+        ...scoring,
+        categoryRules: { security: { blockingThreshold: 6 } }
+      }
+
+      expect(
+        isBlockingScore(withCategories, 'src/index.ts', 6, 'security')
+      ).toBe(true)
+      expect(
+        isBlockingScore(withCategories, 'src/index.ts', 6, 'correctness')
+      ).toBe(false)
+      expect(isBlockingScore(withCategories, 'src/index.ts', 6)).toBe(false)
+    })
+  })
+
+  describe('resolveFindingScoring', () => {
+    const withCategories: ReviewConfig['scoring'] = {
+      ...scoring,
+      categoryRules: {
+        security: { problemThreshold: 3, blockingThreshold: 6 },
+        style: { problemThreshold: 7 }
+      }
+    }
+
+    it('should apply category thresholds on top of path rules', () => {
+      expect(
+        resolveFindingScoring(
+          withCategories,
+          'src/payments/legacy/refund.ts',
+          'security'
+        )
+      ).toEqual({ ignored: false, problemThreshold: 3, blockingThreshold: 6 })
+      expect(
+        resolveFindingScoring(withCategories, 'src/payments/charge.ts', 'style')
+      ).toEqual({ ignored: false, problemThreshold: 7, blockingThreshold: 7 })
+    })
+
+    it('should fall back to path scoring without a category rule', () => {
+      expect(
+        resolveFindingScoring(withCategories, 'src/index.ts', 'performance')
+      ).toEqual(resolvePathScoring(withCategories, 'src/index.ts'))
+      expect(
+        resolveFindingScoring(withCategories, 'src/index.ts', undefined)
+      ).toEqual(resolvePathScoring(withCategories, 'src/index.ts'))
+    })
+
+    it('should keep ignored files ignored', () => {
+      expect(
+        resolveFindingScoring(withCategories, 'docs/guide.md', 'security')
+          .ignored
+      ).toBe(true)
+    })
+  })
+})
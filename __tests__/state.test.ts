@@ -15,16 +15,17 @@ const mockFetch = jest.fn<typeof fetch>()
 /* eslint-disable @typescript-eslint/no-explicit-any */
 const mockOctokit = {
   pulls: {
-    get: jest.fn<() => Promise<any>>(),
-    listReviewComments: jest.fn<() => Promise<any>>()
+    get: jest.fn<(...args: any[]) => Promise<any>>(),
+    listReviewComments: jest.fn<(...args: any[]) => Promise<any>>()
   },
   issues: {
-    getComment: jest.fn<() => Promise<any>>(),
-    updateComment: jest.fn<() => Promise<any>>(),
-    createComment: jest.fn<() => Promise<any>>(),
-    listComments: jest.fn<() => Promise<any>>()
+    getComment: jest.fn<(...args: any[]) => Promise<any>>(),
+    updateComment: jest.fn<(...args: any[]) => Promise<any>>(),
+    createComment: jest.fn<(...args: any[]) => Promise<any>>(),
+    listComments: jest.fn<(...args: any[]) => Promise<any>>()
   },
-  paginate: jest.fn<() => Promise<any>>()
+  paginate: jest.fn<(...args: any[]) => Promise<any>>(),
+  graphql: jest.fn<(...args: any[]) => Promise<any>>()
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
@@ -36,7 +37,14 @@ jest.unstable_mockModule('@actions/core', () => ({
   debug: mockDebug
 }))
 
+import {
+  createReviewComments,
+  paginate,
+  servePages
+} from '../__fixtures__/review-comments.js'
+
 const { StateManager, StateError } = await import('../src/state/manager.js')
+const { serializeStateComment } = await import('../src/state/persistence.js')
 import type { ReviewConfig } from '../src/execution/types.js'
 import type { ProcessState, ReviewThread } from '../src/state/manager.js'
 import type { LLMClient } from '../src/opencode/llm-client.js'
@@ -83,6 +91,7 @@ describe('StateManager', () => {
     mockFetch.mockClear()
     mockOctokit.pulls.get.mockClear()
     mockOctokit.pulls.listReviewComments.mockClear()
+    mockOctokit.paginate.mockImplementation(paginate)
   })
 
   afterEach(() => {
@@ -153,6 +162,195 @@ describe('StateManager', () => {
     })
   })
 
+  describe('persisted state', () => {
+    it('should restore state from the bot state comment', async () => {
+      const persisted: ProcessState = {
+        version: 1,
+        prNumber: 123,
+        lastCommitSha: 'persisted-sha',
+        threads: [],
+        passes: [{ passNumber: 1, completed: true, hasBlockingIssues: true }],
+        metadata: {
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }
+      }
+      mockOctokit.paginate.mockResolvedValueOnce([
+        {
+          id: 1,
+          user: { login: 'someone' },
+          body: serializeStateComment({ ...persisted, prNumber: 999 })
+        },
+        {
+          id: 2,
+          user: { login: 'github-actions[bot]' },
+          body: serializeStateComment(persisted)
+        }
+      ])
+
+      mockOctokit.pulls.listReviewComments.mockResolvedValue({ data: [] })
+
+      const result = await stateManager.getOrCreateState()
+
+      expect(result.passes).toEqual(persisted.passes)
+      expect(result.lastCommitSha).toBe('persisted-sha')
+      expect(mockOctokit.pulls.get).not.toHaveBeenCalled()
+    })
+
+    it('should merge review comment threads missing from the state', async () => {
+      const [known, missing] = createReviewComments(2)
+      const persisted: ProcessState = {
+        version: 1,
+        prNumber: 123,
+        lastCommitSha: 'persisted-sha',
+        threads: [
+          {
+            id: String(known?.id),
+            file: 'src/file-0.ts',
+            line: 10,
+            status: 'DISPUTED',
+            score: 7,
+            assessment: {
+              finding: 'Finding 0',
+              assessment: 'Assessment 0',
+              score: 7
+            },
+            original_comment: {
+              author: 'github-actions[bot]',
+              body: 'Issue 0',
+              timestamp: '2024-01-01T00:00:00.000Z'
+            }
+          }
+        ],
+        passes: [],
+        metadata: {
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }
+      }
+      mockOctokit.paginate.mockResolvedValueOnce([
+        {
+          id: 2,
+          user: { login: 'github-actions[bot]' },
+          body: serializeStateComment(persisted)
+        }
+      ])
+      mockOctokit.pulls.listReviewComments.mockImplementation(
+        servePages([
+          { ...known, commit_id: 'known-sha' },
+          { ...missing, commit_id: 'missing-sha' }
+        ])
+      )
+
+      const result = await stateManager.getOrCreateState()
+
+      expect(result.threads).toMatchObject([
+        { id: '1000', status: 'DISPUTED', anchor_sha: 'known-sha' },
+        { id: '1001', status: 'PENDING', anchor_sha: 'missing-sha' }
+      ])
+    })
+
+    it('should rebuild and overwrite a corrupt state comment', async () => {
+      mockOctokit.paginate.mockResolvedValueOnce([
+        {
+          id: 7,
+          user: { login: 'github-actions[bot]' },
+          body: '<!-- rmcoc-state -->\n<!-- rmcoc-state-data garbage -->'
+        }
+      ])
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { head: { sha: 'head-sha' } }
+      })
+      mockOctokit.pulls.listReviewComments.mockResolvedValue({ data: [] })
+      mockOctokit.issues.updateComment.mockResolvedValue({ data: {} })
+
+      const result = await stateManager.getOrCreateState()
+      await stateManager.persistState()
+
+      expect(result.lastCommitSha).toBe('head-sha')
+      expect(mockOctokit.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 7 })
+      )
+      expect(mockOctokit.issues.createComment).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('review thread reconciliation', () => {
+    beforeEach(() => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { head: { sha: 'test-sha' } }
+      })
+      mockOctokit.pulls.listReviewComments.mockImplementation(
+        servePages(createReviewComments(3))
+      )
+    })
+
+    it('should apply resolved and outdated flags from GitHub', async () => {
+      mockOctokit.graphql
+        .mockResolvedValueOnce({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+                nodes: [
+                  {
+                    id: 'T_1',
+                    isResolved: true,
+                    isOutdated: false,
+                    resolvedBy: { login: 'maintainer' },
+                    comments: { nodes: [{ databaseId: 1000 }] }
+                  }
+                ]
+              }
+            }
+          }
+        })
+        .mockResolvedValueOnce({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                pageInfo: { hasNextPage: false, endCursor: null },
+                nodes: [
+                  {
+                    id: 'T_2',
+                    isResolved: false,
+                    isOutdated: true,
+                    resolvedBy: null,
+                    comments: { nodes: [{ databaseId: 1001 }] }
+                  }
+                ]
+              }
+            }
+          }
+        })
+
+      const state = await stateManager.getOrCreateState()
+
+      expect(mockOctokit.graphql).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ cursor: 'cursor-1' })
+      )
+      expect(state.threads.map((t) => [t.id, t.status, t.is_outdated])).toEqual(
+        [
+          ['1000', 'RESOLVED', undefined],
+          ['1001', 'PENDING', true],
+          ['1002', 'PENDING', undefined]
+        ]
+      )
+    })
+
+    it('should keep comment-derived status when GraphQL fails', async () => {
+      mockOctokit.graphql.mockRejectedValueOnce(new Error('Forbidden'))
+
+      const state = await stateManager.getOrCreateState()
+
+      expect(state.threads.every((t) => t.status === 'PENDING')).toBe(true)
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to load review threads from GitHub')
+      )
+    })
+  })
+
   describe('rebuildStateFromComments', () => {
     it('should rebuild state from GitHub comments', async () => {
       mockOctokit.pulls.get.mockResolvedValue({
@@ -185,6 +383,50 @@ describe('StateManager', () => {
       expect(state.threads[0].score).toBe(7)
     })
 
+    it('should anchor threads at the commit their line refers to', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: {
+          head: { sha: 'test-sha' }
+        }
+      })
+
+      const body =
+        '```rmcoc\n{"finding": "Test issue", "assessment": "Test assessment", "score": 7}\n```'
+      mockOctokit.pulls.listReviewComments.mockResolvedValue({
+        data: [
+          {
+            id: 1001,
+            path: 'src/test.ts',
+            line: 42,
+            original_line: 40,
+            commit_id: 'latest-sha',
+            original_commit_id: 'original-sha',
+            body,
+            user: { login: 'github-actions[bot]' },
+            created_at: '2024-01-01T00:00:00.000Z'
+          },
+          {
+            id: 1002,
+            path: 'src/test.ts',
+            line: null,
+            original_line: 10,
+            commit_id: 'latest-sha',
+            original_commit_id: 'original-sha',
+            body,
+            user: { login: 'github-actions[bot]' },
+            created_at: '2024-01-01T00:00:00.000Z'
+          }
+        ]
+      })
+
+      const state = await stateManager.rebuildStateFromComments()
+
+      expect(state.threads).toMatchObject([
+        { id: '1001', line: 42, anchor_sha: 'latest-sha' },
+        { id: '1002', line: 10, anchor_sha: 'original-sha' }
+      ])
+    })
+
     it('should skip comments without valid assessments', async () => {
       mockOctokit.pulls.get.mockResolvedValue({
         data: {
@@ -383,6 +625,43 @@ describe('StateManager', () => {
     })
   })
 
+  describe('review comment pagination', () => {
+    beforeEach(() => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { head: { sha: 'test-sha' } }
+      })
+      mockOctokit.pulls.listReviewComments.mockImplementation(
+        servePages(createReviewComments(250, 2))
+      )
+    })
+
+    it('should rebuild threads beyond the first page of comments', async () => {
+      const state = await stateManager.rebuildStateFromComments()
+
+      expect(state.threads).toHaveLength(250)
+      expect(state.threads[249]).toMatchObject({
+        id: '1249',
+        status: 'PENDING',
+        developer_replies: [
+          expect.objectContaining({ body: 'Reply 0 to issue 249' }),
+          expect.objectContaining({ body: 'Reply 1 to issue 249' })
+        ]
+      })
+      expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(8)
+    })
+
+    it('should reuse the fetched comments for developer replies', async () => {
+      await stateManager.rebuildStateFromComments()
+      const replies = await stateManager.fetchDeveloperReplies('1200')
+
+      expect(replies.map((r) => r.body)).toEqual([
+        'Reply 0 to issue 200',
+        'Reply 1 to issue 200'
+      ])
+      expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(8)
+    })
+  })
+
   describe('assessment parsing via rebuildStateFromComments', () => {
     it('should parse assessment from rmcoc block', async () => {
       mockOctokit.pulls.get.mockResolvedValue({
@@ -421,6 +700,46 @@ Some text after`,
       expect(state.threads[0].assessment.score).toBe(7)
     })
 
+    it('should parse category, tags and rule reference', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { head: { sha: 'test-sha' } }
+      })
+
+      const comment = (id: number, category: string) => ({
+        id,
+        path: 'src/test.ts',
+        line: 42,
+        body: `Text
+
+\`\`\`rmcoc
+{
+  "finding": "Test finding",
+  "assessment": "Test assessment",
+  "score": 7,
+  "category": "${category}",
+  "tags": ["layering"],
+  "ruleRef": "No DB access from UI components"
+}
+\`\`\``,
+        user: { login: 'github-actions[bot]' },
+        created_at: '2024-01-01T00:00:00.000Z',
+        in_reply_to_id: undefined
+      })
+
+      mockOctokit.pulls.listReviewComments.mockResolvedValue({
+        data: [comment(1001, 'rule-violation'), comment(1002, 'unknown')]
+      })
+
+      const state = await stateManager.rebuildStateFromComments()
+
+      expect(state.threads[0].assessment).toMatchObject({
+        category: 'rule-violation',
+        tags: ['layering'],
+        ruleRef: 'No DB access from UI components'
+      })
+      expect(state.threads[1].assessment.category).toBeUndefined()
+    })
+
     it('should fallback to JSON block for legacy comments', async () => {
       mockOctokit.pulls.get.mockResolvedValue({
         data: { head: { sha: 'test-sha' } }
@@ -658,6 +977,71 @@ export type PostReviewCommentArgs = {
     })
   })
 
+  describe('findDuplicateThread', () => {
+    beforeEach(async () => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { head: { sha: 'test-sha' } }
+      })
+      mockOctokit.pulls.listReviewComments.mockResolvedValue({ data: [] })
+
+      await stateManager.addThread({
+        id: 'thread-1',
+        file: 'test.ts',
+        start_line: 10,
+        line: 20,
+        status: 'PENDING',
+        score: 7,
+        assessment: {
+          finding: 'Missing null check on user input',
+          assessment: 'Crashes on empty input',
+          score: 7
+        },
+        original_comment: {
+          author: 'bot',
+          body: 'Test comment',
+          timestamp: new Date().toISOString()
+        }
+      })
+    })
+
+    it('should match a similar finding in an overlapping range', () => {
+      const duplicate = stateManager.findDuplicateThread(
+        'test.ts',
+        { startLine: 18, line: 25 },
+        'Missing null check on user input'
+      )
+
+      expect(duplicate?.id).toBe('thread-1')
+    })
+
+    it('should match a single line inside an existing range', () => {
+      const duplicate = stateManager.findDuplicateThread(
+        'test.ts',
+        { line: 15 },
+        'Missing null check on user input'
+      )
+
+      expect(duplicate?.id).toBe('thread-1')
+    })
+
+    it('should not match disjoint ranges or the other diff side', () => {
+      expect(
+        stateManager.findDuplicateThread(
+          'test.ts',
+          { startLine: 21, line: 30 },
+          'Missing null check on user input'
+        )
+      ).toBeNull()
+      expect(
+        stateManager.findDuplicateThread(
+          'test.ts',
+          { line: 15, side: 'LEFT' },
+          'Missing null check on user input'
+        )
+      ).toBeNull()
+    })
+  })
+
   describe('updateThreadStatus', () => {
     it('should update thread status', async () => {
       mockOctokit.pulls.get.mockResolvedValue({
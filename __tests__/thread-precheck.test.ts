@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the deterministic pre-check of review threads
+ */
+
+import type { ComparedFile } from '../src/github/api.js'
+import type { ReviewThread } from '../src/state/manager.js'
+import {
+  describeThreadPrecheck,
+  precheckThread
+} from '../src/execution/thread-precheck.js'
+
+function createThread(overrides: Partial<ReviewThread> = {}): ReviewThread {
+  return {
+    id: '1',
+    file: 'src/a.ts',
+    line: 12,
+    status: 'PENDING',
+    score: 6,
+    assessment: { finding: 'Finding', assessment: 'Assessment', score: 6 },
+    original_comment: {
+      author: 'github-actions[bot]',
+      body: 'Body',
+      timestamp: '2024-01-01T00:00:00Z'
+    },
+    ...overrides
+  }
+}
+
+function createFile(overrides: Partial<ComparedFile> = {}): ComparedFile {
+  return {
+    filename: 'src/a.ts',
+    status: 'modified',
+    additions: 1,
+    deletions: 1,
+    ...overrides
+  }
+}
+
+const PATCH = [
+  '@@ -1,3 +1,4 @@',
+  ' import x',
+  '+import y',
+  ' ',
+  ' const a = 1',
+  '@@ -10,5 +11,3 @@',
+  ' function f() {',
+  '-  unsafe()',
+  '-  unsafe()',
+  '-  unsafe()',
+  '+  safe()',
+  ' }'
+].join('\n')
+
+describe('precheckThread', () => {
+  it('should leave threads in untouched files unchanged', () => {
+    expect(
+      precheckThread(createThread(), [createFile({ filename: 'src/b.ts' })])
+    ).toEqual({ outcome: 'unchanged' })
+  })
+
+  it('should detect deleted files', () => {
+    expect(
+      precheckThread(createThread(), [createFile({ status: 'removed' })])
+    ).toEqual({ outcome: 'file-deleted' })
+  })
+
+  it('should detect deleted lines', () => {
+    const patch = ['@@ -10,4 +10,1 @@', ' keep', '-a', '-b', '-c'].join('\n')
+
+    expect(
+      precheckThread(createThread({ start_line: 11, line: 13 }), [
+        createFile({ patch })
+      ])
+    ).toEqual({ outcome: 'line-deleted' })
+  })
+
+  it('should leave rewritten lines to the agent', () => {
+    expect(
+      precheckThread(createThread(), [createFile({ patch: PATCH })])
+    ).toEqual({ outcome: 'modified' })
+  })
+
+  it('should follow moved lines', () => {
+    expect(
+      precheckThread(createThread({ line: 3 }), [createFile({ patch: PATCH })])
+    ).toEqual({ outcome: 'moved', file: 'src/a.ts', line: 4 })
+  })
+
+  it('should follow renamed files', () => {
+    expect(
+      precheckThread(createThread({ start_line: 2, line: 3 }), [
+        createFile({
+          filename: 'src/renamed.ts',
+          previousFilename: 'src/a.ts',
+          status: 'renamed'
+        })
+      ])
+    ).toEqual({
+      outcome: 'moved',
+      file: 'src/renamed.ts',
+      line: 3,
+      startLine: 2
+    })
+  })
+
+  it('should not map comments on the base version', () => {
+    expect(
+      precheckThread(createThread({ side: 'LEFT' }), [
+        createFile({ status: 'removed' })
+      ])
+    ).toMatchObject({ outcome: 'unknown' })
+  })
+
+  it('should not guess when the patch is missing', () => {
+    expect(precheckThread(createThread(), [createFile()])).toEqual({
+      outcome: 'unknown',
+      reason: 'diff not available'
+    })
+  })
+})
+
+describe('describeThreadPrecheck', () => {
+  it('should describe where moved code lives now', () => {
+    expect(
+      describeThreadPrecheck({
+        outcome: 'moved',
+        file: 'src/b.ts',
+        line: 14,
+        startLine: 12
+      })
+    ).toBe('code unchanged, now at src/b.ts:12-14')
+    expect(describeThreadPrecheck({ outcome: 'unchanged' })).toBeNull()
+  })
+
+  it('should flag threads that cannot be mapped from their commit', () => {
+    expect(
+      describeThreadPrecheck({
+        outcome: 'outdated',
+        reason: 'the commit the comment was posted on is unknown'
+      })
+    ).toBe(
+      'line numbers may be stale: the commit the comment was posted on is unknown'
+    )
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for GitHub API rate limit handling
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { clearGitHubRequestMetrics, createOctokit, getGitHubRequestMetrics } =
+  await import('../src/github/throttling.js')
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  })
+}
+
+describe('createOctokit', () => {
+  const fetchMock = jest.fn<typeof fetch>()
+  const pull = { owner: 'o', repo: 'r', pull_number: 1 }
+
+  function createClient() {
+    // One millisecond per second of Retry-After keeps the tests fast
+    return createOctokit('token', { fetch: fetchMock, retryAfterBaseValue: 1 })
+  }
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    clearGitHubRequestMetrics()
+  })
+
+  it('waits for the primary rate limit to reset', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ message: 'API rate limit exceeded' }, 403, {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 30)
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({ number: 1 }))
+
+    const response = await createClient().pulls.get(pull)
+
+    expect(response.data.number).toBe(1)
+    expect(getGitHubRequestMetrics()).toMatchObject({
+      requests: 2,
+      retries: 1,
+      rateLimited: 1,
+      failed: 0
+    })
+  })
+
+  it('backs off on secondary rate limits', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse(
+          { message: 'You have exceeded a secondary rate limit' },
+          403,
+          { 'retry-after': '5' }
+        )
+      )
+      .mockResolvedValueOnce(jsonResponse({ number: 1 }))
+
+    await createClient().pulls.get(pull)
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(getGitHubRequestMetrics()).toMatchObject({
+      secondaryRateLimited: 1,
+      waitMs: 5000
+    })
+  })
+
+  it('gives up when the rate limit resets too late', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ message: 'API rate limit exceeded' }, 403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600)
+      })
+    )
+
+    await expect(createClient().pulls.get(pull)).rejects.toThrow(
+      'API rate limit exceeded'
+    )
+    expect(getGitHubRequestMetrics()).toMatchObject({
+      requests: 1,
+      failed: 1
+    })
+  })
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ message: 'Resource not accessible by integration' }, 403)
+    )
+
+    await expect(createClient().pulls.get(pull)).rejects.toThrow(
+      'Resource not accessible by integration'
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries reads on server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ message: 'Bad gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ number: 1 }))
+
+    await createClient().pulls.get(pull)
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(getGitHubRequestMetrics().retries).toBe(1)
+  })
+
+  it('does not retry writes on server errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ message: 'Bad gateway' }, 502)
+    )
+
+    await expect(
+      createClient().pulls.createReview({ ...pull, event: 'COMMENT' })
+    ).rejects.toThrow('Bad gateway')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(getGitHubRequestMetrics().failed).toBe(1)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the token and cost ledger
+ */
+
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const {
+  clearUsage,
+  getBudgetExceededReason,
+  getTotalUsage,
+  getUsageByCategory,
+  recordUsage,
+  setUsageBudget
+} = await import('../src/utils/usage.js')
+
+describe('usage ledger', () => {
+  beforeEach(() => {
+    clearUsage()
+  })
+
+  it('should aggregate usage per category', () => {
+    recordUsage('classification', {
+      promptTokens: 100,
+      completionTokens: 5,
+      costUsd: 0.001
+    })
+    recordUsage('review', {
+      promptTokens: 20000,
+      completionTokens: 1500,
+      costUsd: 0.25,
+      requests: 4
+    })
+    recordUsage('classification', {
+      promptTokens: 120,
+      completionTokens: 3,
+      costUsd: 0.001
+    })
+
+    expect(getUsageByCategory()).toEqual([
+      {
+        category: 'classification',
+        requests: 2,
+        promptTokens: 220,
+        completionTokens: 8,
+        totalTokens: 228,
+        costUsd: 0.002
+      },
+      {
+        category: 'review',
+        requests: 4,
+        promptTokens: 20000,
+        completionTokens: 1500,
+        totalTokens: 21500,
+        costUsd: 0.25
+      }
+    ])
+    expect(getTotalUsage()).toMatchObject({
+      requests: 6,
+      totalTokens: 21728,
+      costUsd: 0.252
+    })
+  })
+
+  it('should be within budget when no limits are set', () => {
+    recordUsage('review', { promptTokens: 1e6, completionTokens: 0 })
+
+    expect(getBudgetExceededReason()).toBeNull()
+  })
+
+  it('should report the exceeded cost limit', () => {
+    setUsageBudget({ maxCostUsd: 0.5, maxTokens: null })
+    recordUsage('review', {
+      promptTokens: 1000,
+      completionTokens: 100,
+      costUsd: 0.4
+    })
+    expect(getBudgetExceededReason()).toBeNull()
+
+    recordUsage('dispute', {
+      promptTokens: 1000,
+      completionTokens: 100,
+      costUsd: 0.1
+    })
+    expect(getBudgetExceededReason()).toBe(
+      'cost $0.5000 reached the limit of $0.50'
+    )
+  })
+
+  it('should report the exceeded token limit', () => {
+    setUsageBudget({ maxCostUsd: null, maxTokens: 1000 })
+    recordUsage('question', { promptTokens: 900, completionTokens: 200 })
+
+    expect(getBudgetExceededReason()).toBe(
+      '1100 tokens reached the limit of 1000'
+    )
+  })
+})
@@ -49,15 +49,13 @@ export default [
 
       parserOptions: {
         projectService: {
+          // __fixtures__ and __tests__ have their own tsconfig.json
           allowDefaultProject: [
-            '__fixtures__/*.ts',
-            '__tests__/*.ts',
             'eslint.config.mjs',
             'jest.config.js',
             'rollup.config.ts',
             'rollup.tools.config.ts'
-          ],
-          maximumDefaultProjectFileMatchCount_THIS_WILL_SLOW_DOWN_LINTING: 15
+          ]
         },
         tsconfigRootDir: import.meta.dirname
       }
@@ -1,22 +1,56 @@
+import path from 'node:path'
+
 import commonjs from '@rollup/plugin-commonjs'
 import json from '@rollup/plugin-json'
 import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 
-const config = {
-  input: 'src/index.ts',
-  output: {
-    esModule: true,
-    file: 'dist/index.js',
-    format: 'es',
-    sourcemap: true
-  },
-  plugins: [
-    typescript(),
+/**
+ * Plugins keep per-build state, so every config gets its own instances
+ */
+function createPlugins(typescriptOptions = {}) {
+  return [
+    typescript(typescriptOptions),
     nodeResolve({ preferBuiltins: true }),
     commonjs(),
     json()
   ]
 }
 
+const config = [
+  {
+    input: 'src/index.ts',
+    output: {
+      esModule: true,
+      file: 'dist/index.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: createPlugins()
+  },
+  {
+    // Report schema for downstream consumers, exported as `./report` with
+    // type declarations under dist/types
+    input: 'src/report/schema.ts',
+    output: {
+      esModule: true,
+      file: 'dist/report.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: createPlugins({
+      // Only the schema and its imports, so no declarations are emitted for
+      // the rest of the action
+      include: ['src/report/schema.ts', 'src/config/constants.ts'].map((file) =>
+        path.resolve(file)
+      ),
+      compilerOptions: {
+        declaration: true,
+        declarationDir: 'dist/types',
+        rootDir: 'src'
+      }
+    })
+  }
+]
+
 export default config
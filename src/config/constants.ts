@@ -8,11 +8,61 @@ export const TRPC_SERVER_PORT = 38291
 export const TRPC_SERVER_HOST = '127.0.0.1'
 export const TRPC_SERVER_URL = `http://${TRPC_SERVER_HOST}:${TRPC_SERVER_PORT}`
 
-export const OPENROUTER_API_URL =
-  'https://openrouter.ai/api/v1/chat/completions'
+export const OPENROUTER_API_BASE_URL = 'https://openrouter.ai/api/v1'
+export const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1'
+
+export const LLM_PROVIDERS = [
+  'openrouter',
+  'openai-compatible',
+  'anthropic'
+] as const
+
+export type LLMProvider = (typeof LLM_PROVIDERS)[number]
+
+/**
+ * Why the provider preflight check failed, published as `preflight_error`
+ */
+export const PREFLIGHT_ERROR_CATEGORIES = [
+  'invalid_key',
+  'unknown_model',
+  'quota_exhausted',
+  'provider_unavailable',
+  'unknown'
+] as const
+
+export type PreflightErrorCategory = (typeof PREFLIGHT_ERROR_CATEGORIES)[number]
+
+export const DEFAULT_MODEL = 'anthropic/claude-sonnet-4-20250514'
+export const DEFAULT_INJECTION_VERIFICATION_MODEL = 'openai/gpt-4o-mini'
+/** Model ids without the OpenRouter vendor prefix */
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514'
+export const DEFAULT_ANTHROPIC_INJECTION_VERIFICATION_MODEL =
+  'claude-3-5-haiku-20241022'
 
 export const BOT_MENTION = '@review-my-code-bot'
 export const BOT_MENTION_SHORT = '@rmc-bot'
 export const BOT_MENTIONS = [BOT_MENTION, BOT_MENTION_SHORT] as const
 
 export const BOT_USERS = ['github-actions[bot]', 'opencode-reviewer[bot]']
+
+export const FINDING_CATEGORIES = [
+  'security',
+  'correctness',
+  'performance',
+  'maintainability',
+  'style',
+  'rule-violation',
+  'testing'
+] as const
+
+export type FindingCategory = (typeof FINDING_CATEGORIES)[number]
+
+/** LLM calls of a run, as grouped in the usage summary and the run report */
+export const USAGE_CATEGORIES = [
+  'classification',
+  'injection-verification',
+  'review',
+  'fix-verification',
+  'dispute',
+  'question'
+] as const
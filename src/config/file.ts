@@ -0,0 +1,332 @@
+/**
+ * Repository-level configuration file support.
+ *
+ * Teams can commit a `.rmcoc.yml` (or `.github/rmcoc.yml`) to share review
+ * settings across all of their workflows instead of copy-pasting action
+ * inputs. Values from the file are merged by parseInputs() with the following
+ * precedence: action input > configuration file > built-in default.
+ *
+ * Secrets (API keys, tokens) are intentionally not configurable via the file.
+ * The file is read from the base branch of the pull request rather than the
+ * checkout, so a pull request cannot loosen the gate, switch off the security
+ * checks or redirect the provider for its own review. Changes to the file take
+ * effect once they are merged.
+ */
+
+import type { Octokit } from '@octokit/rest'
+import {
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseDocument,
+  type Node
+} from 'yaml'
+import { z } from 'zod'
+
+import type { ConfigLocation } from '../execution/types.js'
+import { FINDING_CATEGORIES, LLM_PROVIDERS } from './constants.js'
+import { ConfigurationError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Candidate file locations, relative to the workspace root, in lookup order
+ */
+export const REPO_CONFIG_FILE_NAMES = ['.rmcoc.yml', '.github/rmcoc.yml']
+
+const categoryThresholdsSchema = z
+  .object({
+    problem_threshold: z.number().int().min(1).max(10).optional(),
+    blocking_threshold: z.number().int().min(1).max(10).optional()
+  })
+  .strict()
+  .refine(
+    (rule) =>
+      rule.problem_threshold === undefined ||
+      rule.blocking_threshold === undefined ||
+      rule.blocking_threshold >= rule.problem_threshold,
+    {
+      message: 'Blocking threshold cannot be lower than problem threshold',
+      path: ['blocking_threshold']
+    }
+  )
+
+export const repoConfigSchema = z
+  .object({
+    provider: z
+      .object({
+        type: z.enum(LLM_PROVIDERS).optional(),
+        base_url: z.string().url().optional(),
+        preflight_check: z.boolean().optional()
+      })
+      .strict()
+      .optional(),
+    model: z.string().min(1).optional(),
+    fallback_models: z.array(z.string().min(1)).optional(),
+    enable_web: z.boolean().optional(),
+    debug_logging: z.boolean().optional(),
+    ignore: z.array(z.string().min(1)).optional(),
+    scoring: z
+      .object({
+        problem_threshold: z.number().int().min(1).max(10).optional(),
+        blocking_threshold: z.number().int().min(1).max(10).optional(),
+        paths: z
+          .array(
+            z
+              .object({
+                pattern: z.string().min(1),
+                problem_threshold: z.number().int().min(1).max(10).optional(),
+                blocking_threshold: z.number().int().min(1).max(10).optional(),
+                ignore: z.boolean().optional()
+              })
+              .strict()
+          )
+          .optional(),
+        categories: z
+          .record(z.enum(FINDING_CATEGORIES), categoryThresholdsSchema)
+          .optional()
+      })
+      .strict()
+      .optional(),
+    review: z
+      .object({
+        timeout_minutes: z.number().int().min(5).max(120).optional(),
+        max_retries: z.number().int().min(0).max(3).optional(),
+        enable_suggestions: z.boolean().optional()
+      })
+      .strict()
+      .optional(),
+    dispute: z
+      .object({
+        enable_human_escalation: z.boolean().optional(),
+        human_reviewers: z.array(z.string().min(1)).optional()
+      })
+      .strict()
+      .optional(),
+    security: z
+      .object({
+        injection_detection_enabled: z.boolean().optional(),
+        injection_verification_model: z.string().min(1).optional(),
+        injection_verification_fallback_models: z
+          .array(z.string().min(1))
+          .optional()
+      })
+      .strict()
+      .optional(),
+    reporting: z
+      .object({
+        check_run: z.boolean().optional(),
+        pr_review: z.boolean().optional(),
+        sarif_output_path: z.string().min(1).optional()
+      })
+      .strict()
+      .optional(),
+    manual_trigger: z
+      .object({
+        enable_start_comment: z.boolean().optional(),
+        enable_end_comment: z.boolean().optional()
+      })
+      .strict()
+      .optional(),
+    budget: z
+      .object({
+        max_cost_usd: z.number().positive().optional(),
+        max_tokens: z.number().int().positive().optional(),
+        max_llm_requests: z.number().int().positive().optional()
+      })
+      .strict()
+      .optional()
+  })
+  .strict()
+
+export type RepoConfig = z.infer<typeof repoConfigSchema>
+
+export type LoadedRepoConfig = {
+  /** Path of the file relative to the workspace root */
+  path: string
+  values: RepoConfig
+  /** Source location of every key in the file, keyed by dotted key path */
+  locations: Record<string, ConfigLocation>
+}
+
+/**
+ * Trusted revision of the repository the configuration file is read from
+ */
+export type RepoConfigSource = {
+  octokit: Octokit
+  owner: string
+  repo: string
+  /** Commit of the pull request's base branch */
+  ref: string
+}
+
+/**
+ * Load and validate the repository configuration file, if one exists.
+ *
+ * @param source - Repository and base commit to read the file from
+ * @returns The validated file contents, or null when no file is present
+ * @throws ConfigurationError with file:line:column locations for YAML syntax
+ *   errors and schema violations, or when the file cannot be read
+ */
+export async function loadRepoConfig(
+  source: RepoConfigSource
+): Promise<LoadedRepoConfig | null> {
+  for (const fileName of REPO_CONFIG_FILE_NAMES) {
+    const content = await readRepoFile(source, fileName)
+    if (content === null) {
+      continue
+    }
+
+    logger.info(
+      `Loading repository configuration from ${fileName} at ${source.ref.substring(0, 7)}`
+    )
+    return parseRepoConfig(fileName, content)
+  }
+
+  logger.debug('No repository configuration file found')
+  return null
+}
+
+/**
+ * Read a file at the source revision, null when it does not exist there
+ */
+async function readRepoFile(
+  source: RepoConfigSource,
+  path: string
+): Promise<string | null> {
+  try {
+    const response = await source.octokit.repos.getContent({
+      owner: source.owner,
+      repo: source.repo,
+      path,
+      ref: source.ref,
+      mediaType: { format: 'raw' }
+    })
+    return String(response.data)
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && error.status === 404) {
+      return null
+    }
+
+    throw new ConfigurationError(
+      `Failed to read ${path} at ${source.ref.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Parse and validate configuration file content.
+ *
+ * @param path - File path used in error locations
+ * @param content - Raw YAML content
+ */
+export function parseRepoConfig(
+  path: string,
+  content: string
+): LoadedRepoConfig {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter })
+
+  if (document.errors.length > 0) {
+    const messages = document.errors.map((error) => {
+      const position = error.linePos?.[0]
+      const location = position ? `${position.line}:${position.col}` : '1:1'
+      return `${path}:${location}: ${error.message.split('\n')[0]}`
+    })
+    throw new ConfigurationError(
+      `Invalid YAML in configuration file:\n${messages.join('\n')}`
+    )
+  }
+
+  const locations: Record<string, ConfigLocation> = {}
+  collectLocations(document.contents, [], lineCounter, locations)
+
+  const raw = document.toJS() ?? {}
+  const result = repoConfigSchema.safeParse(raw)
+
+  if (!result.success) {
+    const messages = result.error.issues.map((issue) => {
+      const keyPath = issue.path.map(String)
+      const location = findLocation(locations, keyPath)
+      const key = keyPath.length > 0 ? keyPath.join('.') : '(root)'
+      return `${formatConfigLocation(path, location)}: ${key} - ${issue.message}`
+    })
+    throw new ConfigurationError(
+      `Invalid configuration file:\n${messages.join('\n')}`
+    )
+  }
+
+  return {
+    path,
+    values: result.data,
+    locations
+  }
+}
+
+export function formatConfigLocation(
+  path: string,
+  location: ConfigLocation | undefined
+): string {
+  return location ? `${path}:${location.line}:${location.column}` : path
+}
+
+function collectLocations(
+  node: Node | null,
+  keyPath: string[],
+  lineCounter: LineCounter,
+  locations: Record<string, ConfigLocation>
+): void {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (!isScalar(pair.key)) {
+        continue
+      }
+
+      const childPath = [...keyPath, String(pair.key.value)]
+      const offset = pair.key.range?.[0]
+      if (offset !== undefined) {
+        const { line, col } = lineCounter.linePos(offset)
+        locations[childPath.join('.')] = { line, column: col }
+      }
+
+      collectLocations(
+        pair.value as Node | null,
+        childPath,
+        lineCounter,
+        locations
+      )
+    }
+    return
+  }
+
+  if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const childPath = [...keyPath, String(index)]
+      const offset = (item as Node | null)?.range?.[0]
+      if (offset !== undefined) {
+        const { line, col } = lineCounter.linePos(offset)
+        locations[childPath.join('.')] = { line, column: col }
+      }
+
+      collectLocations(item as Node | null, childPath, lineCounter, locations)
+    })
+  }
+}
+
+/**
+ * Find the location of a key path, falling back to the closest parent key
+ * (e.g. for "missing required key" issues the key itself does not exist).
+ */
+function findLocation(
+  locations: Record<string, ConfigLocation>,
+  keyPath: string[]
+): ConfigLocation | undefined {
+  for (let length = keyPath.length; length > 0; length--) {
+    const location = locations[keyPath.slice(0, length).join('.')]
+    if (location) {
+      return location
+    }
+  }
+
+  return { line: 1, column: 1 }
+}
@@ -1,48 +1,183 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
 
-import { BOT_MENTION, BOT_MENTIONS, BOT_USERS } from './constants.js'
+import {
+  BOT_MENTION,
+  BOT_MENTIONS,
+  BOT_USERS,
+  DEFAULT_ANTHROPIC_INJECTION_VERIFICATION_MODEL,
+  DEFAULT_ANTHROPIC_MODEL,
+  DEFAULT_INJECTION_VERIFICATION_MODEL,
+  DEFAULT_MODEL,
+  FINDING_CATEGORIES,
+  LLM_PROVIDERS,
+  type LLMProvider
+} from './constants.js'
+import {
+  formatConfigLocation,
+  loadRepoConfig,
+  type LoadedRepoConfig,
+  type RepoConfig
+} from './file.js'
+import { createOctokit } from '../github/throttling.js'
 import { LLMClientImpl } from '../opencode/llm-client.js'
 import type {
+  ConfigFileSource,
+  ConfigLocation,
   DisputeContext,
   ExecutionMode,
+  PathScoringRule,
   QuestionContext,
   ReviewConfig
 } from '../execution/types.js'
 import { IntentClassifier } from '../task/classifier.js'
 
+/**
+ * Default models per provider. Self-hosted providers have no sensible default,
+ * so the model must be configured and the verification model falls back to it.
+ */
+const DEFAULT_MODELS: Partial<Record<LLMProvider, string>> = {
+  openrouter: DEFAULT_MODEL,
+  anthropic: DEFAULT_ANTHROPIC_MODEL
+}
+
+const DEFAULT_INJECTION_VERIFICATION_MODELS: Partial<
+  Record<LLMProvider, string>
+> = {
+  openrouter: DEFAULT_INJECTION_VERIFICATION_MODEL,
+  anthropic: DEFAULT_ANTHROPIC_INJECTION_VERIFICATION_MODEL
+}
+
+/**
+ * Load the configuration file from the pull request's base commit. The
+ * checkout holds the pull request's own changes, which must not configure
+ * their own review.
+ */
+async function loadBaseRepoConfig(
+  githubToken: string,
+  context: typeof github.context
+): Promise<LoadedRepoConfig | null> {
+  if (!githubToken) {
+    return null
+  }
+
+  const octokit = createOctokit(githubToken)
+  const { owner, repo } = context.repo
+
+  let ref: string | undefined = context.payload.pull_request?.base?.sha
+  const issue = context.payload.issue
+  if (!ref && issue?.pull_request) {
+    try {
+      const pr = await octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: issue.number
+      })
+      ref = pr.data.base.sha
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve the base commit of PR #${issue.number}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  if (!ref) {
+    core.debug('No pull request base commit, skipping the configuration file')
+    return null
+  }
+
+  return loadRepoConfig({ octokit, owner, repo, ref })
+}
+
 export async function parseInputs(): Promise<ReviewConfig> {
-  const apiKey = core.getInput('openrouter_api_key', { required: true })
-  const model = core.getInput('model', { required: true })
-  const enableWeb = core.getBooleanInput('enable_web', { required: false })
-  const debugLogging = core.getBooleanInput('debug_logging', {
-    required: false
-  })
+  const githubToken = core.getInput('github_token', { required: true })
+  const repoConfig = await loadBaseRepoConfig(githubToken, github.context)
+  const file: RepoConfig = repoConfig?.values ?? {}
+  const fileSettings = new FileSettingsTracker(repoConfig)
+
+  const provider = parseProviderInput(
+    fileSettings.resolve<string>(
+      'provider.type',
+      getOptionalInput('provider'),
+      file.provider?.type,
+      'openrouter'
+    )
+  )
+  const baseUrl = fileSettings.resolve<string | null>(
+    'provider.base_url',
+    getOptionalInput('provider_base_url'),
+    file.provider?.base_url,
+    null
+  )
+  const preflightCheck = fileSettings.resolve(
+    'provider.preflight_check',
+    getOptionalBooleanInput('enable_preflight_check'),
+    file.provider?.preflight_check,
+    true
+  )
+  const apiKey =
+    getOptionalInput('provider_api_key') ??
+    getOptionalInput('openrouter_api_key') ??
+    ''
+  const model = fileSettings.resolve(
+    'model',
+    getOptionalInput('model'),
+    file.model,
+    DEFAULT_MODELS[provider] ?? ''
+  )
+  const fallbackModels = fileSettings.resolve(
+    'fallback_models',
+    parseModelList(getOptionalInput('fallback_models')),
+    file.fallback_models,
+    []
+  )
+  const enableWeb = fileSettings.resolve(
+    'enable_web',
+    getOptionalBooleanInput('enable_web'),
+    file.enable_web,
+    false
+  )
+  const debugLogging = fileSettings.resolve(
+    'debug_logging',
+    getOptionalBooleanInput('debug_logging'),
+    file.debug_logging,
+    false
+  )
 
   const problemThreshold = parseNumericInput(
     'problem_score_threshold',
-    5,
+    fileSettings.resolve<string | number>(
+      'scoring.problem_threshold',
+      getOptionalInput('problem_score_threshold'),
+      file.scoring?.problem_threshold,
+      5
+    ),
     1,
     10,
     'Problem score threshold must be between 1 and 10'
   )
 
-  const blockingThresholdInput = core.getInput('blocking_score_threshold', {
-    required: false
-  })
-  const blockingThreshold = blockingThresholdInput
-    ? parseNumericInput(
-        'blocking_score_threshold',
-        problemThreshold,
-        1,
-        10,
-        'Blocking score threshold must be between 1 and 10'
-      )
-    : problemThreshold
+  const blockingThreshold = parseNumericInput(
+    'blocking_score_threshold',
+    fileSettings.resolve<string | number>(
+      'scoring.blocking_threshold',
+      getOptionalInput('blocking_score_threshold'),
+      file.scoring?.blocking_threshold,
+      problemThreshold
+    ),
+    1,
+    10,
+    'Blocking score threshold must be between 1 and 10'
+  )
 
   const reviewTimeoutMinutes = parseNumericInput(
     'review_timeout_minutes',
-    40,
+    fileSettings.resolve<string | number>(
+      'review.timeout_minutes',
+      getOptionalInput('review_timeout_minutes'),
+      file.review?.timeout_minutes,
+      40
+    ),
     5,
     120,
     'Review timeout must be between 5 and 120 minutes'
@@ -50,52 +185,139 @@ export async function parseInputs(): Promise<ReviewConfig> {
 
   const maxRetries = parseNumericInput(
     'max_review_retries',
-    1,
+    fileSettings.resolve<string | number>(
+      'review.max_retries',
+      getOptionalInput('max_review_retries'),
+      file.review?.max_retries,
+      1
+    ),
     0,
     3,
     'Max review retries must be between 0 and 3'
   )
 
-  const githubToken = core.getInput('github_token', { required: true })
+  const enableSuggestions = fileSettings.resolve(
+    'review.enable_suggestions',
+    getOptionalBooleanInput('enable_suggestions'),
+    file.review?.enable_suggestions,
+    false
+  )
 
-  const enableHumanEscalation = core.getBooleanInput(
-    'enable_human_escalation',
-    {
-      required: false
-    }
+  const maxCostUsd = parseLimitInput(
+    'max_cost_usd',
+    fileSettings.resolve<string | number | undefined>(
+      'budget.max_cost_usd',
+      getOptionalInput('max_cost_usd'),
+      file.budget?.max_cost_usd,
+      undefined
+    )
   )
 
-  const humanReviewersInput = core.getInput('human_reviewers', {
-    required: false
-  })
-  const humanReviewers = humanReviewersInput
-    ? humanReviewersInput.split(',').map((r) => r.trim())
-    : []
+  const maxTokens = parseLimitInput(
+    'max_tokens',
+    fileSettings.resolve<string | number | undefined>(
+      'budget.max_tokens',
+      getOptionalInput('max_tokens'),
+      file.budget?.max_tokens,
+      undefined
+    )
+  )
+
+  const maxLlmRequests = parseLimitInput(
+    'max_llm_requests',
+    fileSettings.resolve<string | number | undefined>(
+      'budget.max_llm_requests',
+      getOptionalInput('max_llm_requests'),
+      file.budget?.max_llm_requests,
+      undefined
+    )
+  )
+
+  const pathRules = buildPathRules(repoConfig)
+  const categoryRules = buildCategoryRules(repoConfig)
+
+  const enableHumanEscalation = fileSettings.resolve(
+    'dispute.enable_human_escalation',
+    getOptionalBooleanInput('enable_human_escalation'),
+    file.dispute?.enable_human_escalation,
+    false
+  )
+
+  const humanReviewersInput = getOptionalInput('human_reviewers')
+  const humanReviewers = fileSettings.resolve(
+    'dispute.human_reviewers',
+    humanReviewersInput
+      ? humanReviewersInput.split(',').map((r) => r.trim())
+      : undefined,
+    file.dispute?.human_reviewers,
+    []
+  )
+
+  const injectionDetectionEnabled = fileSettings.resolve(
+    'security.injection_detection_enabled',
+    getOptionalBooleanInput('injection_detection_enabled'),
+    file.security?.injection_detection_enabled,
+    true
+  )
+
+  const injectionVerificationModel = fileSettings.resolve(
+    'security.injection_verification_model',
+    getOptionalInput('injection_verification_model'),
+    file.security?.injection_verification_model,
+    DEFAULT_INJECTION_VERIFICATION_MODELS[provider] ?? model
+  )
+  // Kept apart from fallback_models, so a failing small model does not fall
+  // back on the far more expensive review models
+  const injectionVerificationFallbackModels = fileSettings.resolve(
+    'security.injection_verification_fallback_models',
+    parseModelList(getOptionalInput('injection_verification_fallback_models')),
+    file.security?.injection_verification_fallback_models,
+    []
+  )
 
-  const injectionDetectionEnabled =
-    core.getInput('injection_detection_enabled', { required: false }) !==
-    'false'
+  const enableStartComment = fileSettings.resolve(
+    'manual_trigger.enable_start_comment',
+    getOptionalBooleanInput('review_manual_trigger_enable_start_comment'),
+    file.manual_trigger?.enable_start_comment,
+    true
+  )
 
-  const injectionVerificationModel = core.getInput(
-    'injection_verification_model',
-    { required: true }
+  const enableEndComment = fileSettings.resolve(
+    'manual_trigger.enable_end_comment',
+    getOptionalBooleanInput('review_manual_trigger_enable_end_comment'),
+    file.manual_trigger?.enable_end_comment,
+    true
   )
 
-  const enableStartComment = core.getBooleanInput(
-    'review_manual_trigger_enable_start_comment',
-    { required: false }
+  const checkRun = fileSettings.resolve(
+    'reporting.check_run',
+    getOptionalBooleanInput('enable_check_run'),
+    file.reporting?.check_run,
+    false
   )
 
-  const enableEndComment = core.getBooleanInput(
-    'review_manual_trigger_enable_end_comment',
-    { required: false }
+  const pullRequestReview = fileSettings.resolve(
+    'reporting.pr_review',
+    getOptionalBooleanInput('submit_pr_review'),
+    file.reporting?.pr_review,
+    false
+  )
+
+  const sarifOutputPath = fileSettings.resolve<string | null>(
+    'reporting.sarif_output_path',
+    getOptionalInput('sarif_output_path'),
+    file.reporting?.sarif_output_path,
+    null
   )
 
   const context = github.context
 
   const tempLlmClient = new LLMClientImpl({
+    provider,
     apiKey,
-    model: injectionVerificationModel
+    baseUrl,
+    model: injectionVerificationModel,
+    fallbackModels: injectionVerificationFallbackModels
   })
   const intentClassifier = new IntentClassifier(tempLlmClient)
 
@@ -111,7 +333,7 @@ export async function parseInputs(): Promise<ReviewConfig> {
   const owner = context.repo.owner
   const repo = context.repo.repo
 
-  if (!apiKey || apiKey.trim() === '') {
+  if (requiresApiKey(provider) && apiKey.trim() === '') {
     throw new Error('OpenCode API key cannot be empty')
   }
 
@@ -121,18 +343,25 @@ export async function parseInputs(): Promise<ReviewConfig> {
 
   return {
     opencode: {
+      provider,
       apiKey,
+      baseUrl,
+      preflightCheck,
       model,
+      fallbackModels,
       enableWeb,
       debugLogging
     },
     scoring: {
       problemThreshold,
-      blockingThreshold
+      blockingThreshold,
+      pathRules,
+      categoryRules
     },
     review: {
       timeoutMs: reviewTimeoutMinutes * 60 * 1000,
-      maxRetries
+      maxRetries,
+      enableSuggestions
     },
     github: {
       token: githubToken,
@@ -146,7 +375,18 @@ export async function parseInputs(): Promise<ReviewConfig> {
     },
     security: {
       injectionDetectionEnabled,
-      injectionVerificationModel
+      injectionVerificationModel,
+      injectionVerificationFallbackModels
+    },
+    reporting: {
+      checkRun,
+      pullRequestReview,
+      sarifOutputPath
+    },
+    budget: {
+      maxCostUsd,
+      maxTokens,
+      maxLlmRequests
     },
     execution: {
       mode,
@@ -158,7 +398,8 @@ export async function parseInputs(): Promise<ReviewConfig> {
         enableStartComment,
         enableEndComment
       }
-    }
+    },
+    configFile: fileSettings.getSource()
   }
 }
 
@@ -339,15 +580,128 @@ async function detectExecutionMode(
   )
 }
 
+/**
+ * Tracks which settings were taken from the repository configuration file so
+ * that validation errors can point at the offending file location.
+ */
+class FileSettingsTracker {
+  private locations: Record<string, ConfigLocation> = {}
+
+  constructor(private repoConfig: LoadedRepoConfig | null) {}
+
+  /**
+   * Resolve a setting with precedence: action input > file > default
+   */
+  resolve<T>(
+    fileKey: string,
+    inputValue: T | undefined,
+    fileValue: T | undefined,
+    defaultValue: T
+  ): T {
+    if (inputValue !== undefined) {
+      return inputValue
+    }
+
+    if (fileValue !== undefined) {
+      const location = this.repoConfig?.locations[fileKey]
+      if (location) {
+        this.locations[fileKey] = location
+      }
+      return fileValue
+    }
+
+    return defaultValue
+  }
+
+  getSource(): ConfigFileSource | undefined {
+    if (!this.repoConfig) {
+      return undefined
+    }
+
+    return {
+      path: this.repoConfig.path,
+      locations: this.locations
+    }
+  }
+}
+
+/**
+ * Build path scoring rules from the configuration file. The top-level `ignore`
+ * list is expanded into ignore rules ahead of `scoring.paths`.
+ */
+function buildPathRules(
+  repoConfig: LoadedRepoConfig | null
+): PathScoringRule[] {
+  const ignoreRules: PathScoringRule[] = (repoConfig?.values.ignore ?? []).map(
+    (pattern) => ({ pattern, ignore: true })
+  )
+  const pathRules: PathScoringRule[] = (
+    repoConfig?.values.scoring?.paths ?? []
+  ).map((rule) => ({
+    pattern: rule.pattern,
+    problemThreshold: rule.problem_threshold,
+    blockingThreshold: rule.blocking_threshold,
+    ignore: rule.ignore
+  }))
+
+  return [...ignoreRules, ...pathRules]
+}
+
+/**
+ * Build category scoring rules from `scoring.categories` in the configuration
+ * file
+ */
+function buildCategoryRules(
+  repoConfig: LoadedRepoConfig | null
+): ReviewConfig['scoring']['categoryRules'] {
+  const rules: ReviewConfig['scoring']['categoryRules'] = {}
+
+  for (const category of FINDING_CATEGORIES) {
+    const rule = repoConfig?.values.scoring?.categories?.[category]
+    if (rule) {
+      rules[category] = {
+        problemThreshold: rule.problem_threshold,
+        blockingThreshold: rule.blocking_threshold
+      }
+    }
+  }
+
+  return rules
+}
+
+function getOptionalInput(name: string): string | undefined {
+  const value = core.getInput(name, { required: false }).trim()
+  return value === '' ? undefined : value
+}
+
+function getOptionalBooleanInput(name: string): boolean | undefined {
+  if (getOptionalInput(name) === undefined) {
+    return undefined
+  }
+
+  return core.getBooleanInput(name, { required: false })
+}
+
+/**
+ * Comma-separated model list, undefined when the input is empty
+ */
+function parseModelList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0)
+}
+
 function parseNumericInput(
   name: string,
-  defaultValue: number,
+  resolvedValue: string | number,
   min: number,
   max: number,
   errorMessage: string
 ): number {
-  const input = core.getInput(name, { required: false })
-  const value = input ? parseInt(input, 10) : defaultValue
+  const input = String(resolvedValue)
+  const value =
+    typeof resolvedValue === 'number' ? resolvedValue : parseInt(input, 10)
 
   if (Number.isNaN(value)) {
     throw new Error(`${name} must be a valid number. Received: ${input}`)
@@ -360,39 +714,135 @@ function parseNumericInput(
   return value
 }
 
+function parseProviderInput(value: string): LLMProvider {
+  const provider = LLM_PROVIDERS.find((p) => p === value)
+
+  if (!provider) {
+    throw new Error(
+      `Unsupported provider "${value}". Expected one of: ${LLM_PROVIDERS.join(', ')}`
+    )
+  }
+
+  return provider
+}
+
+/**
+ * Self-hosted OpenAI-compatible servers often run without authentication
+ */
+function requiresApiKey(provider: LLMProvider): boolean {
+  return provider !== 'openai-compatible'
+}
+
+/**
+ * Parse an optional positive limit, where an unset value means no limit
+ */
+function parseLimitInput(
+  name: string,
+  resolvedValue: string | number | undefined
+): number | null {
+  if (resolvedValue === undefined) {
+    return null
+  }
+
+  const value = Number(resolvedValue)
+
+  if (Number.isNaN(value) || value <= 0) {
+    throw new Error(
+      `${name} must be a positive number. Received: ${resolvedValue}`
+    )
+  }
+
+  return value
+}
+
+/**
+ * Validate the merged configuration.
+ *
+ * When an invalid value was taken from the repository configuration file the
+ * error message includes its file:line:column location.
+ */
 export function validateConfig(config: ReviewConfig): void {
-  if (!config.opencode.apiKey) {
+  if (requiresApiKey(config.opencode.provider) && !config.opencode.apiKey) {
     throw new Error('OpenCode API key is required')
   }
 
+  if (
+    config.opencode.provider === 'openai-compatible' &&
+    !config.opencode.baseUrl
+  ) {
+    throw new Error(
+      'provider_base_url is required for the openai-compatible provider'
+    )
+  }
+
+  if (config.opencode.baseUrl && !URL.canParse(config.opencode.baseUrl)) {
+    throw new Error(
+      withFileLocation(
+        config,
+        'provider.base_url',
+        `Invalid provider base URL: ${config.opencode.baseUrl}`
+      )
+    )
+  }
+
   if (!config.opencode.model) {
-    throw new Error('Model name is required')
+    throw new Error(withFileLocation(config, 'model', 'Model name is required'))
   }
 
   if (
     config.scoring.problemThreshold < 1 ||
     config.scoring.problemThreshold > 10
   ) {
-    throw new Error('Problem threshold must be between 1 and 10')
+    throw new Error(
+      withFileLocation(
+        config,
+        'scoring.problem_threshold',
+        'Problem threshold must be between 1 and 10'
+      )
+    )
   }
 
   if (
     config.scoring.blockingThreshold < 1 ||
     config.scoring.blockingThreshold > 10
   ) {
-    throw new Error('Blocking threshold must be between 1 and 10')
+    throw new Error(
+      withFileLocation(
+        config,
+        'scoring.blocking_threshold',
+        'Blocking threshold must be between 1 and 10'
+      )
+    )
   }
 
   if (config.scoring.blockingThreshold < config.scoring.problemThreshold) {
-    throw new Error('Blocking threshold cannot be lower than problem threshold')
+    throw new Error(
+      withFileLocation(
+        config,
+        'scoring.blocking_threshold',
+        'Blocking threshold cannot be lower than problem threshold'
+      )
+    )
   }
 
   if (config.review.timeoutMs < 5 * 60 * 1000) {
-    throw new Error('Review timeout must be at least 5 minutes')
+    throw new Error(
+      withFileLocation(
+        config,
+        'review.timeout_minutes',
+        'Review timeout must be at least 5 minutes'
+      )
+    )
   }
 
   if (config.review.maxRetries < 0 || config.review.maxRetries > 3) {
-    throw new Error('Max retries must be between 0 and 3')
+    throw new Error(
+      withFileLocation(
+        config,
+        'review.max_retries',
+        'Max retries must be between 0 and 3'
+      )
+    )
   }
 
   if (!config.github.token) {
@@ -407,3 +857,16 @@ export function validateConfig(config: ReviewConfig): void {
     throw new Error('Valid PR number is required')
   }
 }
+
+function withFileLocation(
+  config: ReviewConfig,
+  fileKey: string,
+  message: string
+): string {
+  const location = config.configFile?.locations[fileKey]
+  if (!config.configFile || !location) {
+    return message
+  }
+
+  return `${message} (${formatConfigLocation(config.configFile.path, location)})`
+}
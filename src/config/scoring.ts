@@ -0,0 +1,101 @@
+import { minimatch } from 'minimatch'
+
+import type { PathScoringRule, ReviewConfig } from '../execution/types.js'
+import type { FindingCategory } from './constants.js'
+
+export type PathScoring = {
+  ignored: boolean
+  problemThreshold: number
+  blockingThreshold: number
+}
+
+/**
+ * Resolve the effective scoring settings for a single file.
+ *
+ * Every matching rule is applied in order, so later rules override the
+ * thresholds of earlier ones. A file is ignored when any matching rule
+ * ignores it.
+ */
+export function resolvePathScoring(
+  scoring: ReviewConfig['scoring'],
+  file: string
+): PathScoring {
+  const resolved: PathScoring = {
+    ignored: false,
+    problemThreshold: scoring.problemThreshold,
+    blockingThreshold: scoring.blockingThreshold
+  }
+
+  for (const rule of scoring.pathRules) {
+    if (!matchesPathRule(rule, file)) {
+      continue
+    }
+
+    if (rule.ignore) {
+      resolved.ignored = true
+    }
+    if (rule.problemThreshold !== undefined) {
+      resolved.problemThreshold = rule.problemThreshold
+    }
+    if (rule.blockingThreshold !== undefined) {
+      resolved.blockingThreshold = rule.blockingThreshold
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Resolve the thresholds for a single finding: the file's path scoring with
+ * the thresholds of the finding's category applied on top.
+ */
+export function resolveFindingScoring(
+  scoring: ReviewConfig['scoring'],
+  file: string,
+  category: FindingCategory | undefined
+): PathScoring {
+  const resolved = resolvePathScoring(scoring, file)
+  const rule = category ? scoring.categoryRules[category] : undefined
+
+  return {
+    ignored: resolved.ignored,
+    problemThreshold: rule?.problemThreshold ?? resolved.problemThreshold,
+    blockingThreshold: rule?.blockingThreshold ?? resolved.blockingThreshold
+  }
+}
+
+/**
+ * Split changed files into those that should be reviewed and those excluded
+ * by ignore rules
+ */
+export function partitionReviewableFiles(
+  scoring: ReviewConfig['scoring'],
+  files: string[]
+): { reviewable: string[]; ignored: string[] } {
+  const reviewable: string[] = []
+  const ignored: string[] = []
+
+  for (const file of files) {
+    if (resolvePathScoring(scoring, file).ignored) {
+      ignored.push(file)
+    } else {
+      reviewable.push(file)
+    }
+  }
+
+  return { reviewable, ignored }
+}
+
+export function isBlockingScore(
+  scoring: ReviewConfig['scoring'],
+  file: string,
+  score: number,
+  category?: FindingCategory
+): boolean {
+  const resolved = resolveFindingScoring(scoring, file, category)
+  return !resolved.ignored && score >= resolved.blockingThreshold
+}
+
+function matchesPathRule(rule: PathScoringRule, file: string): boolean {
+  return minimatch(file.replace(/^\.\//, ''), rule.pattern, { dot: true })
+}
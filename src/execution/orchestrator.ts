@@ -1,22 +1,55 @@
 import { readFile } from 'node:fs/promises'
-import { join } from 'node:path'
+import { join, resolve } from 'node:path'
 
-import type { GitHubAPI } from '../github/api.js'
+import { isBlockingScore, partitionReviewableFiles } from '../config/scoring.js'
+import {
+  type ComparedFile,
+  type GitHubAPI,
+  formatLineRange,
+  isPendingCommentId
+} from '../github/api.js'
+import { CheckRunReporter } from '../github/check-run.js'
+import { DiffIndex } from '../github/diff.js'
 import type {
+  CommentRange,
   ProcessState,
   ReviewThread,
   StateManager
 } from '../state/manager.js'
 import type { OpenCodeClient } from '../opencode/client.js'
+import {
+  getOpenCodeModelRef,
+  getProviderConnection
+} from '../opencode/provider.js'
+import type { SessionUsage } from '../opencode/types.js'
 
-import { OrchestratorError } from '../utils/errors.js'
+import { OrchestratorError, UsageBudgetError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
 import { delay } from '../utils/async.js'
+import {
+  type UsageCategory,
+  getBudgetExceededReason,
+  recordUsage
+} from '../utils/usage.js'
 import {
   type PromptInjectionDetector,
   createPromptInjectionDetector
 } from '../utils/prompt-injection-detector.js'
 import { REVIEW_PROMPTS, buildSecuritySensitivity } from './prompts.js'
+import { writeSarifFile } from './sarif.js'
+import {
+  type CommitRange,
+  type ReviewScope,
+  buildIncrementalDiff,
+  formatCommitRangeSummary,
+  getLastReviewedCommit,
+  resolveReviewScope
+} from './review-scope.js'
+import {
+  type ThreadPrecheck,
+  describeThreadPrecheck,
+  precheckThread
+} from './thread-precheck.js'
 import type {
   ConversationMessage,
   DisputeContext,
@@ -26,21 +59,45 @@ import type { PassResult, ReviewConfig, ReviewOutput } from './types.js'
 
 type PassNumber = 1 | 2 | 3
 
+const PASS_NAMES: Record<PassNumber, string> = {
+  1: 'Atomic Diff Review',
+  2: 'Structural Review',
+  3: 'Security & Compliance'
+}
+
 type ReviewPhase =
   | 'idle'
   | 'fix-verification'
   | 'dispute-resolution'
   | 'multi-pass-review'
 
+const PHASE_USAGE_CATEGORIES: Record<ReviewPhase, UsageCategory> = {
+  idle: 'review',
+  'fix-verification': 'fix-verification',
+  'dispute-resolution': 'dispute',
+  'multi-pass-review': 'review'
+}
+
 export class ReviewExecutor {
   private injectionDetector: PromptInjectionDetector
   private passResults: PassResult[] = []
+  private passDurations = new Map<PassNumber, number>()
   private processState: ProcessState | null = null
   private currentSessionId: string | null = null
   private currentPhase: ReviewPhase = 'idle'
   private passCompletionResolvers: Map<number, () => void> = new Map()
   private cachedPRInfo: Awaited<ReturnType<GitHubAPI['getPRInfo']>> | null =
     null
+  private checkRun: CheckRunReporter | null = null
+  private diffIndex: DiffIndex | null = null
+  private recordedSessionUsage = new Map<string, SessionUsage>()
+  private currentPass: PassNumber | null = null
+  /** Index into the configured model followed by the fallback models */
+  private modelIndex = 0
+  private reviewScope: ReviewScope = {
+    mode: 'full',
+    reason: 'incremental review not requested'
+  }
 
   constructor(
     private opencode: OpenCodeClient,
@@ -50,13 +107,28 @@ export class ReviewExecutor {
     private workspaceRoot: string
   ) {
     this.injectionDetector = createPromptInjectionDetector(
-      config.opencode.apiKey,
+      getProviderConnection(config),
       config.security.injectionVerificationModel,
-      config.security.injectionDetectionEnabled
+      config.security.injectionDetectionEnabled,
+      config.security.injectionVerificationFallbackModels
     )
+
+    if (config.reporting.checkRun) {
+      this.checkRun = new CheckRunReporter(github, config)
+    }
   }
 
-  async executeReview(): Promise<ReviewOutput> {
+  /**
+   * Run the full multi-pass review.
+   *
+   * @param options.affectsMergeGate - Whether blocking issues should fail the
+   *   check run (auto reviews) or only be reported (manual reviews)
+   * @param options.incremental - Limit pass 1 to the commits pushed since the
+   *   last reviewed commit when history allows it (synchronize events)
+   */
+  async executeReview(
+    options: { affectsMergeGate?: boolean; incremental?: boolean } = {}
+  ): Promise<ReviewOutput> {
     return await logger.group('Executing Multi-Pass Review', async () => {
       logger.info(
         `Review configuration: timeout=${this.config.review.timeoutMs / 1000}s, maxRetries=${this.config.review.maxRetries}`
@@ -64,17 +136,26 @@ export class ReviewExecutor {
 
       let attempts = 0
 
-      while (attempts <= this.config.review.maxRetries) {
+      // Each switch to a fallback model adds an attempt on that model;
+      // max_review_retries applies once the fallback models are used up
+      while (attempts <= this.config.review.maxRetries + this.modelIndex) {
         try {
           attempts++
 
           if (attempts > 1) {
+            this.assertWithinBudget(`review attempt ${attempts}`)
             logger.warning(
-              `Retrying entire review session (attempt ${attempts}/${this.config.review.maxRetries + 1})`
+              `Retrying entire review session with ${this.getActiveModel()} (attempt ${attempts}/${this.config.review.maxRetries + this.modelIndex + 1})`
             )
 
             await this.resetSession()
             this.passResults = []
+          } else if (this.checkRun) {
+            const prInfo = await this.getCachedPRInfo()
+            await this.checkRun.start(
+              prInfo.head.sha,
+              options.affectsMergeGate ?? true
+            )
           }
 
           this.processState = await this.stateManager.getOrCreateState()
@@ -82,6 +163,21 @@ export class ReviewExecutor {
             `Loaded review state with ${this.processState.threads.length} existing threads`
           )
 
+          if (options.incremental) {
+            const prInfo = await this.getCachedPRInfo()
+            this.reviewScope = await resolveReviewScope(
+              this.github,
+              this.processState,
+              prInfo.head.sha,
+              await this.github.getPRFiles()
+            )
+            logger.info(
+              this.reviewScope.mode === 'incremental'
+                ? `Incremental review of ${this.reviewScope.baseSha.substring(0, 7)}..${this.reviewScope.headSha.substring(0, 7)} (${this.reviewScope.files.length} files changed)`
+                : `Falling back to full review: ${this.reviewScope.reason}`
+            )
+          }
+
           const hasExistingIssues = this.processState.threads.some(
             (t) => t.status === 'PENDING' || t.status === 'DISPUTED'
           )
@@ -99,9 +195,51 @@ export class ReviewExecutor {
           const output = this.buildReviewOutput()
           logger.info(`Review completed: ${output.issuesFound} issues found`)
 
+          const reviewedPrInfo = await this.getCachedPRInfo()
+          await this.stateManager.recordReviewedCommit(reviewedPrInfo.head.sha)
+          output.reviewedSha = reviewedPrInfo.head.sha
+
+          output.checkRunCompleted =
+            (await this.checkRun?.complete(
+              output,
+              this.processState.threads
+            )) ?? false
+
+          await this.writeSarifReport(this.processState.threads)
+
           return output
         } catch (error) {
-          if (attempts > this.config.review.maxRetries) {
+          // Do not lose comments queued before the failure
+          await this.submitPassReviewComments().catch((submitError) => {
+            logger.warning(
+              `Failed to submit queued review comments: ${submitError instanceof Error ? submitError.message : String(submitError)}`
+            )
+          })
+
+          // Another attempt or model would only spend more
+          if (error instanceof UsageBudgetError) {
+            await this.checkRun?.fail(
+              error.message,
+              this.processState?.threads ?? []
+            )
+            throw new OrchestratorError(
+              `Review stopped: ${error.message}`,
+              error
+            )
+          }
+
+          const switchedModel = this.useNextModel(
+            error instanceof Error ? error.message : String(error)
+          )
+
+          if (
+            !switchedModel &&
+            attempts > this.config.review.maxRetries + this.modelIndex
+          ) {
+            await this.checkRun?.fail(
+              error instanceof Error ? error.message : String(error),
+              this.processState?.threads ?? []
+            )
             throw new OrchestratorError(
               `Review failed after ${attempts} attempts: ${error instanceof Error ? error.message : String(error)}`,
               error instanceof Error ? error : undefined
@@ -139,8 +277,40 @@ export class ReviewExecutor {
   private async executeMultiPassReview(): Promise<void> {
     this.currentPhase = 'multi-pass-review'
     this.passResults = []
+    this.passDurations.clear()
+
+    const scope = this.reviewScope
+    const { reviewable: files, ignored: ignoredFiles } =
+      partitionReviewableFiles(
+        this.config.scoring,
+        scope.mode === 'incremental'
+          ? scope.files.map((f) => f.filename)
+          : await this.github.getPRFiles()
+      )
+    if (ignoredFiles.length > 0) {
+      logger.info(
+        `Skipping ${ignoredFiles.length} files excluded by path rules: ${ignoredFiles.join(', ')}`
+      )
+    }
+
+    if (scope.mode === 'incremental' && files.length === 0) {
+      logger.info(
+        'No reviewable changes since the last review - skipping review passes'
+      )
+      this.currentPhase = 'idle'
+      return
+    }
+    const incremental =
+      scope.mode === 'incremental'
+        ? {
+            baseSha: scope.baseSha,
+            headSha: scope.headSha,
+            diff: buildIncrementalDiff(
+              scope.files.filter((f) => files.includes(f.filename))
+            )
+          }
+        : undefined
 
-    const files = await this.github.getPRFiles()
     const securitySensitivity = await this.detectSecuritySensitivity()
     const prInfo = await this.getCachedPRInfo()
     const prBodyLength = prInfo.body?.length || 0
@@ -194,7 +364,10 @@ export class ReviewExecutor {
     if (this.config.opencode.debugLogging) {
       logger.info('Dispatching prompt for pass 1')
     }
-    await this.executePass(1, REVIEW_PROMPTS.PASS_1(files, prDescription))
+    await this.executePass(
+      1,
+      REVIEW_PROMPTS.PASS_1(files, prDescription, ignoredFiles, incremental)
+    )
     if (this.config.opencode.debugLogging) {
       logger.info('Dispatching prompt for pass 2')
     }
@@ -214,14 +387,29 @@ export class ReviewExecutor {
 
   private async executeFixVerification(): Promise<void> {
     await logger.group('Fix Verification', async () => {
+      this.assertWithinBudget('fix verification')
+
       if (!this.processState) {
         throw new OrchestratorError('Review state not loaded')
       }
 
       this.currentPhase = 'fix-verification'
 
-      const previousIssues = this.formatPreviousIssues()
-      const newCommits = await this.getNewCommitsSummary()
+      const range = await this.getReviewedCommitRange()
+      const prechecks = range
+        ? await this.precheckThreads(range)
+        : new Map<string, ThreadPrecheck>()
+
+      if (this.processState.threads.every((t) => t.status === 'RESOLVED')) {
+        logger.info(
+          'All previous issues were resolved by the pre-check - skipping agent verification'
+        )
+        this.currentPhase = 'idle'
+        return
+      }
+
+      const previousIssues = this.formatPreviousIssues(prechecks)
+      const newCommits = await this.getNewCommitsSummary(range)
       const prInfo = await this.getCachedPRInfo()
       const prDescription = await this.sanitizeExternalInput(
         prInfo.body || '',
@@ -334,7 +522,7 @@ export class ReviewExecutor {
           )
         }
 
-        await this.sendPromptToOpenCode(prompt)
+        await this.sendDisputePrompt(prompt)
       }
 
       this.currentPhase = 'idle'
@@ -411,7 +599,31 @@ export class ReviewExecutor {
       )
     }
 
-    await this.sendPromptToOpenCode(prompt)
+    await this.sendDisputePrompt(prompt)
+  }
+
+  /**
+   * Send a dispute prompt, moving to a new session on the next fallback model
+   * when the model fails. Disputes answered outside a review have no
+   * whole-session retry to fall back on.
+   */
+  private async sendDisputePrompt(prompt: string): Promise<void> {
+    for (;;) {
+      try {
+        await this.sendPromptToOpenCode(prompt)
+        return
+      } catch (error) {
+        if (
+          !this.useNextModel(
+            error instanceof Error ? error.message : String(error)
+          )
+        ) {
+          throw error
+        }
+      }
+
+      await this.resetSession()
+    }
   }
 
   private async executePass(
@@ -419,9 +631,12 @@ export class ReviewExecutor {
     prompt: string
   ): Promise<void> {
     await logger.group(`Pass ${passNumber} of 3`, async () => {
+      this.assertWithinBudget(`pass ${passNumber}`)
+
       const startTime = Date.now()
 
       logger.info(`Starting pass ${passNumber}`)
+      this.currentPass = passNumber
       logger.debug(`Pass ${passNumber} prompt length: ${prompt.length} chars`)
 
       // Create a promise that resolves when submit_pass_results is called
@@ -429,6 +644,9 @@ export class ReviewExecutor {
         this.passCompletionResolvers.set(passNumber, resolve)
       })
 
+      // Collect this pass's comments into a single review
+      this.github.startReviewBatch()
+
       // Send the prompt and wait for idle (with grace period)
       if (this.config.opencode.debugLogging) {
         logger.info(`Pass ${passNumber}: sending prompt to OpenCode`)
@@ -475,8 +693,18 @@ export class ReviewExecutor {
       // Clean up the resolver
       this.passCompletionResolvers.delete(passNumber)
 
+      // No-op when submit_pass_results already submitted the batch
+      await this.submitPassReviewComments(passNumber)
+      this.currentPass = null
+
       const duration = Date.now() - startTime
+      this.passDurations.set(passNumber, duration)
       logger.info(`Pass ${passNumber} completed in ${duration}ms`)
+
+      await this.checkRun?.update(
+        this.processState?.threads ?? [],
+        this.passResults
+      )
     })
   }
 
@@ -491,12 +719,60 @@ export class ReviewExecutor {
     logger.info(`Created session: ${session.id}`)
 
     logger.info('Injecting system prompt into session')
-    await this.opencode.sendSystemPrompt(session.id, REVIEW_PROMPTS.SYSTEM)
+    const systemPrompt = this.config.review.enableSuggestions
+      ? `${REVIEW_PROMPTS.SYSTEM}\n\n${REVIEW_PROMPTS.SUGGESTIONS}`
+      : REVIEW_PROMPTS.SYSTEM
+    await this.opencode.sendSystemPrompt(session.id, systemPrompt)
     logger.info('System prompt injected successfully')
 
     return session.id
   }
 
+  /**
+   * Model currently used for OpenCode sessions
+   */
+  getActiveModel(): string {
+    return this.getModels()[this.modelIndex] ?? this.config.opencode.model
+  }
+
+  private getModels(): string[] {
+    return [this.config.opencode.model, ...this.config.opencode.fallbackModels]
+  }
+
+  /**
+   * Switch subsequent prompts to the next fallback model. The switch sticks
+   * for the rest of the run. Returns false when no fallback model is left.
+   */
+  private useNextModel(reason: string): boolean {
+    const nextModel = this.getModels()[this.modelIndex + 1]
+    if (nextModel === undefined) {
+      return false
+    }
+
+    logger.warning(
+      `${this.getActiveModel()} failed (${reason}), falling back to ${nextModel}`
+    )
+    this.modelIndex++
+    this.opencode.setModel(
+      getOpenCodeModelRef(getProviderConnection(this.config), nextModel)
+    )
+
+    return true
+  }
+
+  /**
+   * Stop the review once the run's usage budget is used up, instead of
+   * starting another pass, fix verification or attempt
+   */
+  private assertWithinBudget(step: string): void {
+    const exceededReason = getBudgetExceededReason()
+    if (exceededReason) {
+      throw new UsageBudgetError(
+        `Usage budget exhausted (${exceededReason}) before ${step}`
+      )
+    }
+  }
+
   private async resetSession(): Promise<void> {
     if (this.currentSessionId) {
       logger.info(`Deleting old session: ${this.currentSessionId}`)
@@ -516,7 +792,39 @@ export class ReviewExecutor {
   private async sendPromptToOpenCode(prompt: string): Promise<void> {
     const sessionId = await this.ensureSession()
     logger.debug(`Sending prompt to session ${sessionId}`)
-    await this.opencode.sendPrompt(sessionId, prompt)
+    try {
+      await this.opencode.sendPrompt(sessionId, prompt)
+    } finally {
+      await this.recordSessionUsage(
+        sessionId,
+        PHASE_USAGE_CATEGORIES[this.currentPhase]
+      )
+    }
+  }
+
+  /**
+   * Add the session's usage since the last prompt to the run's ledger
+   */
+  private async recordSessionUsage(
+    sessionId: string,
+    category: UsageCategory
+  ): Promise<void> {
+    try {
+      const usage = await this.opencode.getSessionUsage(sessionId)
+      const previous = this.recordedSessionUsage.get(sessionId)
+      this.recordedSessionUsage.set(sessionId, usage)
+
+      recordUsage(category, {
+        requests: usage.messages - (previous?.messages ?? 0),
+        promptTokens: usage.inputTokens - (previous?.inputTokens ?? 0),
+        completionTokens: usage.outputTokens - (previous?.outputTokens ?? 0),
+        costUsd: usage.costUsd - (previous?.costUsd ?? 0)
+      })
+    } catch (error) {
+      logger.warning(
+        `Failed to record session usage: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
   }
 
   async cleanup(): Promise<void> {
@@ -541,6 +849,44 @@ export class ReviewExecutor {
     return this.currentPhase === 'multi-pass-review'
   }
 
+  /**
+   * Submit the review comments queued during a pass as one GitHub review with
+   * a pass summary, then replace placeholder thread IDs with the real ones.
+   *
+   * @param passNumber - Pass the comments belong to, omitted when a review is
+   *   interrupted before its pass completed
+   */
+  async submitPassReviewComments(passNumber?: number): Promise<void> {
+    const pendingThreads =
+      this.processState?.threads.filter((t) => isPendingCommentId(t.id)) ?? []
+
+    const mapping = await this.github.submitReviewBatch(
+      this.formatPassReviewSummary(pendingThreads, passNumber)
+    )
+
+    if (mapping.size > 0 || pendingThreads.length > 0) {
+      await this.stateManager.remapThreadIds(mapping)
+    }
+  }
+
+  private formatPassReviewSummary(
+    threads: ReviewThread[],
+    passNumber?: number
+  ): string {
+    const heading = passNumber
+      ? `**Pass ${passNumber} of 3: ${PASS_NAMES[passNumber as PassNumber]}**`
+      : '**Review comments**'
+
+    const findings = threads
+      .map(
+        (t) =>
+          `- \`${t.file}:${t.line}\` (score ${t.score}): ${t.assessment.finding}`
+      )
+      .join('\n')
+
+    return `${heading}\n\nFound ${threads.length} new issue(s):\n\n${findings}`
+  }
+
   recordPassCompletion(result: PassResult): void {
     logger.info(
       `Pass ${result.passNumber} completed: ${result.hasBlockingIssues ? 'HAS BLOCKING ISSUES' : 'no blocking issues'}`
@@ -572,10 +918,10 @@ export class ReviewExecutor {
 
   findDuplicateThread(
     file: string,
-    line: number,
+    range: CommentRange,
     finding: string
   ): ReviewThread | null {
-    return this.stateManager.findDuplicateThread(file, line, finding)
+    return this.stateManager.findDuplicateThread(file, range, finding)
   }
 
   private async detectSecuritySensitivity(): Promise<string> {
@@ -611,7 +957,9 @@ export class ReviewExecutor {
     }
   }
 
-  private formatPreviousIssues(): string {
+  private formatPreviousIssues(
+    prechecks: Map<string, ThreadPrecheck> = new Map()
+  ): string {
     if (!this.processState) {
       return 'No previous issues'
     }
@@ -626,8 +974,13 @@ export class ReviewExecutor {
     const issueList = this.processState.threads
       .filter((t) => t.status !== 'RESOLVED')
       .map((thread) => {
-        return `- **${thread.file}:${thread.line}** [${thread.status}] (score: ${thread.score})
-  Thread ID: ${thread.id}
+        const flags = thread.is_outdated
+          ? `${thread.status}, OUTDATED`
+          : thread.status
+        const precheck = prechecks.get(thread.id)
+        const note = precheck ? describeThreadPrecheck(precheck) : null
+        return `- **${thread.file}:${thread.line}** [${flags}] (score: ${thread.score})
+  Thread ID: ${thread.id}${note ? `\n  Pre-check: ${note}` : ''}
   Finding: ${thread.assessment.finding}
   Assessment: ${thread.assessment.assessment}`
       })
@@ -638,18 +991,191 @@ export class ReviewExecutor {
 ${issueList}`
   }
 
-  private async getNewCommitsSummary(): Promise<string> {
+  /**
+   * The changes between the last reviewed commit and HEAD, or null when they
+   * cannot be determined
+   */
+  private async getReviewedCommitRange(): Promise<CommitRange | null> {
+    if (this.reviewScope.mode === 'incremental') {
+      return {
+        baseSha: this.reviewScope.baseSha,
+        headSha: this.reviewScope.headSha,
+        comparison: this.reviewScope.comparison
+      }
+    }
+
+    if (!this.processState) {
+      return null
+    }
+
+    const baseSha = getLastReviewedCommit(this.processState)
+    const prInfo = await this.getCachedPRInfo()
+    const headSha = prInfo.head.sha
+    if (!baseSha || baseSha === headSha) {
+      return null
+    }
+
+    try {
+      const comparison = await this.github.compareCommits(baseSha, headSha)
+      return comparison ? { baseSha, headSha, comparison } : null
+    } catch (error) {
+      logger.warning(
+        `Failed to compare ${baseSha.substring(0, 7)}...${headSha.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return null
+    }
+  }
+
+  /**
+   * Resolve PENDING and DISPUTED threads whose code no longer exists at HEAD
+   * and move the remaining ones to their current location. Each thread is
+   * mapped from the commit its lines refer to; threads without a known commit
+   * are left to the agent as outdated.
+   */
+  private async precheckThreads(
+    range: CommitRange
+  ): Promise<Map<string, ThreadPrecheck>> {
+    const prechecks = new Map<string, ThreadPrecheck>()
+    if (!this.processState) {
+      return prechecks
+    }
+
+    const candidates = this.processState.threads.filter(
+      (t) => t.status === 'PENDING' || t.status === 'DISPUTED'
+    )
+    const changedFiles = new Map<string, ComparedFile[] | null>([
+      [range.baseSha, range.comparison.files]
+    ])
+
+    for (const thread of candidates) {
+      const anchorSha = thread.anchor_sha
+      const precheck = await this.precheckThreadSince(
+        thread,
+        range.headSha,
+        changedFiles
+      )
+      prechecks.set(thread.id, precheck)
+
+      if (precheck.outcome === 'unchanged' || precheck.outcome === 'moved') {
+        // Keep the thread anchored at HEAD, so the next run maps it from here
+        if (precheck.outcome === 'moved') {
+          thread.file = precheck.file
+          thread.line = precheck.line
+          thread.start_line = precheck.startLine
+        }
+        thread.anchor_sha = range.headSha
+        continue
+      }
+
+      if (
+        !anchorSha ||
+        (precheck.outcome !== 'line-deleted' &&
+          precheck.outcome !== 'file-deleted')
+      ) {
+        continue
+      }
+
+      const location = formatLineRange(
+        thread.file,
+        thread.line,
+        thread.start_line
+      )
+      const commits = `${anchorSha.substring(0, 7)}..${range.headSha.substring(0, 7)}`
+      const reason =
+        precheck.outcome === 'file-deleted'
+          ? `\`${thread.file}\` was deleted in ${commits}, so this issue no longer applies.`
+          : `The code at \`${location}\` was removed in ${commits}, so this issue no longer applies.`
+
+      try {
+        await this.github.resolveThread(thread.id, reason, {
+          type: 'auto-resolution',
+          reply_to_thread_id: thread.id,
+          status: 'RESOLVED',
+          resolution: precheck.outcome,
+          base_sha: anchorSha,
+          head_sha: range.headSha,
+          resolved_at: new Date().toISOString(),
+          reason
+        })
+        await this.updateThreadStatus(thread.id, 'RESOLVED')
+        logger.info(`Auto-resolved thread ${thread.id} (${precheck.outcome})`)
+      } catch (error) {
+        logger.warning(
+          `Failed to auto-resolve thread ${thread.id}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    }
+
+    return prechecks
+  }
+
+  /**
+   * Pre-check a thread against the files changed between its anchor commit
+   * and HEAD. Each anchor is compared once per run.
+   */
+  private async precheckThreadSince(
+    thread: ReviewThread,
+    headSha: string,
+    changedFiles: Map<string, ComparedFile[] | null>
+  ): Promise<ThreadPrecheck> {
+    const anchorSha = thread.anchor_sha
+    if (!anchorSha) {
+      return {
+        outcome: 'outdated',
+        reason: 'the commit the comment was posted on is unknown'
+      }
+    }
+
+    if (anchorSha === headSha) {
+      return { outcome: 'unchanged' }
+    }
+
+    if (!changedFiles.has(anchorSha)) {
+      try {
+        const comparison = await this.github.compareCommits(anchorSha, headSha)
+        changedFiles.set(anchorSha, comparison?.files ?? null)
+      } catch (error) {
+        logger.warning(
+          `Failed to compare ${anchorSha.substring(0, 7)}...${headSha.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`
+        )
+        changedFiles.set(anchorSha, null)
+      }
+    }
+
+    const files = changedFiles.get(anchorSha)
+    return files
+      ? precheckThread(thread, files)
+      : {
+          outcome: 'outdated',
+          reason: `commit ${anchorSha.substring(0, 7)} can no longer be compared with HEAD`
+        }
+  }
+
+  private async getNewCommitsSummary(
+    range: CommitRange | null
+  ): Promise<string> {
     if (!this.processState) {
       return 'No commit history available'
     }
 
+    if (range) {
+      return await this.sanitizeExternalInput(
+        formatCommitRangeSummary(
+          range.comparison,
+          range.baseSha,
+          range.headSha,
+          this.processState.threads
+        ),
+        'commit messages'
+      )
+    }
+
     try {
       const files = await this.github.getPRFiles()
 
       return `New commits since last review:
-- Last reviewed commit: ${this.processState.lastCommitSha.substring(0, 7)}
-- Current HEAD: New changes detected
-- Files changed: ${files.length}
+- Last reviewed commit: ${this.processState.lastCommitSha.substring(0, 7)} (commit range unavailable)
+- Files in PR: ${files.length}
 - Changed files: ${files.join(', ')}
 
 **Important:** Use OpenCode tools (read, grep, glob) to verify if previous issues are addressed.
@@ -680,8 +1206,13 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
       (t) => t.status !== 'RESOLVED'
     )
 
-    const blockingCount = activeThreads.filter(
-      (t) => t.score >= this.config.scoring.blockingThreshold
+    const blockingCount = activeThreads.filter((t) =>
+      isBlockingScore(
+        this.config.scoring,
+        t.file,
+        t.score,
+        t.assessment.category
+      )
     ).length
 
     const hasBlocking =
@@ -694,6 +1225,28 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
     }
   }
 
+  /**
+   * Export active threads for code scanning. A failed export is logged but
+   * does not fail the review.
+   */
+  private async writeSarifReport(threads: ReviewThread[]): Promise<void> {
+    const outputPath = this.config.reporting.sarifOutputPath
+    if (!outputPath) {
+      return
+    }
+
+    const path = resolve(this.workspaceRoot, outputPath)
+
+    try {
+      const count = await writeSarifFile(path, threads, this.config)
+      logger.info(`Wrote ${count} finding(s) to SARIF file ${path}`)
+    } catch (error) {
+      logger.warning(
+        `Failed to write SARIF file ${path}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
   private async getCachedPRInfo(): Promise<
     Awaited<ReturnType<GitHubAPI['getPRInfo']>>
   > {
@@ -741,7 +1294,15 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
     }
   }
 
-  async addThread(thread: ReviewThread): Promise<void> {
+  async addThread(newThread: ReviewThread): Promise<void> {
+    const thread = {
+      ...newThread,
+      pass: newThread.pass ?? this.currentPass ?? undefined,
+      // Comments are posted on the head commit of the pull request
+      anchor_sha:
+        newThread.anchor_sha ?? (await this.getCachedPRInfo()).head.sha
+    }
+
     await this.stateManager.addThread(thread)
 
     if (this.processState) {
@@ -760,10 +1321,29 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
     return this.processState
   }
 
+  /**
+   * Wall-clock time of each pass run by the last review attempt
+   */
+  getPassTimings(): Array<{ passNumber: number; durationMs: number }> {
+    return [...this.passDurations.entries()].map(
+      ([passNumber, durationMs]) => ({ passNumber, durationMs })
+    )
+  }
+
   getConfig(): ReviewConfig {
     return this.config
   }
 
+  /**
+   * Diff hunks of the pull request, fetched once per run
+   */
+  async getDiffIndex(): Promise<DiffIndex> {
+    if (!this.diffIndex) {
+      this.diffIndex = new DiffIndex(await this.github.getPRFileDiffs())
+    }
+    return this.diffIndex
+  }
+
   async getThreadsRequiringVerification(): Promise<ReviewThread[]> {
     if (!this.processState) {
       return []
@@ -816,14 +1396,6 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
 
       const prContext = await this.github.getPRContext()
 
-      const sessionId = await this.ensureSession()
-
-      logger.info('Injecting question-answering system prompt')
-      await this.opencode.sendSystemPrompt(
-        sessionId,
-        REVIEW_PROMPTS.QUESTION_ANSWERING_SYSTEM
-      )
-
       // Build prompt based on question type
       let prompt: string
       if (context.requiresFreshAnalysis) {
@@ -852,12 +1424,7 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
         )
       }
 
-      logger.info('Sending question to OpenCode agent')
-
-      const response = await this.opencode.sendPromptAndGetResponse(
-        sessionId,
-        prompt
-      )
+      const response = await this.askQuestion(prompt)
 
       logger.info('Received answer from agent')
       logger.debug(`Answer length: ${response.length} characters`)
@@ -865,4 +1432,53 @@ Use the \`read\` tool to examine the changed files and verify if issues have bee
       return response
     })
   }
+
+  /**
+   * Ask the question in the current session, moving to a new session on the
+   * next fallback model when the model fails or answers empty
+   */
+  private async askQuestion(prompt: string): Promise<string> {
+    for (;;) {
+      const sessionId = await this.ensureSession()
+      let response = ''
+      let failure: unknown = null
+
+      try {
+        logger.info('Injecting question-answering system prompt')
+        await this.opencode.sendSystemPrompt(
+          sessionId,
+          REVIEW_PROMPTS.QUESTION_ANSWERING_SYSTEM
+        )
+
+        logger.info(
+          `Sending question to OpenCode agent (${this.getActiveModel()})`
+        )
+        response = await this.opencode
+          .sendPromptAndGetResponse(sessionId, prompt)
+          .finally(() => this.recordSessionUsage(sessionId, 'question'))
+
+        if (response.trim()) {
+          return response
+        }
+      } catch (error) {
+        failure = error
+      }
+
+      const reason =
+        failure === null
+          ? 'empty answer'
+          : failure instanceof Error
+            ? failure.message
+            : String(failure)
+
+      if (!this.useNextModel(reason)) {
+        if (failure !== null) {
+          throw failure
+        }
+        return response
+      }
+
+      await this.resetSession()
+    }
+  }
 }
@@ -0,0 +1,182 @@
+import type {
+  CommitComparison,
+  ComparedFile,
+  GitHubAPI
+} from '../github/api.js'
+import type { ProcessState, ReviewThread } from '../state/manager.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Commits between the last reviewed SHA and HEAD
+ */
+export type CommitRange = {
+  baseSha: string
+  headSha: string
+  comparison: CommitComparison
+}
+
+/**
+ * What pass 1 of a review covers: the whole PR, or only the changes pushed
+ * since the last completed review
+ */
+export type ReviewScope =
+  | { mode: 'full'; reason: string }
+  | (CommitRange & {
+      mode: 'incremental'
+      /** Files changed since the last review that are part of the PR */
+      files: ComparedFile[]
+    })
+
+/**
+ * The commit the last completed review covered, or null if unknown.
+ *
+ * A rebuilt state records the current head without it having been reviewed,
+ * so the SHA is only trusted once all three passes of a review completed.
+ */
+export function getLastReviewedCommit(state: ProcessState): string | null {
+  const completedPasses = state.passes.filter((p) => p.completed).length
+  return completedPasses >= 3 && state.lastCommitSha
+    ? state.lastCommitSha
+    : null
+}
+
+/**
+ * Decide whether a review can be limited to the commits pushed since the last
+ * reviewed SHA. Falls back to a full review when there is no reviewed SHA,
+ * when history was rewritten (force-push) or the old SHA is unreachable.
+ */
+export async function resolveReviewScope(
+  github: GitHubAPI,
+  state: ProcessState,
+  headSha: string,
+  prFiles: string[]
+): Promise<ReviewScope> {
+  const baseSha = getLastReviewedCommit(state)
+  if (!baseSha) {
+    return { mode: 'full', reason: 'no previously reviewed commit' }
+  }
+
+  if (baseSha === headSha) {
+    return { mode: 'full', reason: 'HEAD was already reviewed' }
+  }
+
+  let comparison: CommitComparison | null
+  try {
+    comparison = await github.compareCommits(baseSha, headSha)
+  } catch (error) {
+    logger.warning(
+      `Failed to compare ${baseSha.substring(0, 7)}...${headSha.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return { mode: 'full', reason: 'commit comparison failed' }
+  }
+
+  if (!comparison) {
+    return {
+      mode: 'full',
+      reason: `last reviewed commit ${baseSha.substring(0, 7)} is unreachable`
+    }
+  }
+
+  if (comparison.status !== 'ahead') {
+    return {
+      mode: 'full',
+      reason: `history was rewritten since ${baseSha.substring(0, 7)} (${comparison.status})`
+    }
+  }
+
+  // Changes merged in from the base branch are not part of the PR
+  const prFileSet = new Set(prFiles)
+  const files = comparison.files.filter((f) => prFileSet.has(f.filename))
+
+  return { mode: 'incremental', baseSha, headSha, comparison, files }
+}
+
+/**
+ * Inlining more than this would crowd out the model's context
+ */
+const MAX_INCREMENTAL_DIFF_LENGTH = 60000
+
+/**
+ * Join the patches of the given files into a unified diff, or null when the
+ * diff is too large to include in a prompt
+ */
+export function buildIncrementalDiff(files: ComparedFile[]): string | null {
+  const diff = files
+    .map((file) =>
+      file.patch
+        ? `diff --git a/${file.previousFilename ?? file.filename} b/${file.filename}\n${file.patch}`
+        : `diff --git a/${file.previousFilename ?? file.filename} b/${file.filename}\n(${file.status}, no textual diff)`
+    )
+    .join('\n')
+
+  return diff.length <= MAX_INCREMENTAL_DIFF_LENGTH ? diff : null
+}
+
+/**
+ * Listing every commit of a large push adds little for fix verification
+ */
+const MAX_SUMMARY_COMMITS = 30
+
+/**
+ * Describe the commits between the last reviewed SHA and HEAD for fix
+ * verification: commit list, per-file stats and the unresolved threads whose
+ * files were touched, which are the ones most likely to have been fixed.
+ */
+export function formatCommitRangeSummary(
+  comparison: CommitComparison,
+  baseSha: string,
+  headSha: string,
+  threads: ReviewThread[]
+): string {
+  const range = `${baseSha.substring(0, 7)}..${headSha.substring(0, 7)}`
+  const shownCommits = comparison.commits.slice(-MAX_SUMMARY_COMMITS)
+  const omittedCommits = comparison.commits.length - shownCommits.length
+
+  const commitList = shownCommits
+    .map(
+      (c) =>
+        `- ${c.sha.substring(0, 7)} ${c.message.split('\n')[0]?.trim() ?? ''} (${c.author})`
+    )
+    .join('\n')
+
+  const fileList = comparison.files
+    .map((f) => {
+      const renamed = f.previousFilename ? ` (from ${f.previousFilename})` : ''
+      return `- ${f.filename}${renamed} [${f.status}] +${f.additions}/-${f.deletions}`
+    })
+    .join('\n')
+
+  const changedPaths = new Set(
+    comparison.files.flatMap((f) =>
+      f.previousFilename ? [f.filename, f.previousFilename] : [f.filename]
+    )
+  )
+  const unresolved = threads.filter((t) => t.status !== 'RESOLVED')
+  const touched = unresolved.filter((t) => changedPaths.has(t.file))
+
+  const threadList =
+    touched.length > 0
+      ? touched
+          .map((t) => `- Thread ${t.id} at ${t.file}:${t.line} [${t.status}]`)
+          .join('\n')
+      : '- None - fixes, if any, must be cross-file'
+
+  const rewritten =
+    comparison.status === 'ahead'
+      ? ''
+      : `\n**Note:** History was rewritten since the last review (${comparison.status}); changes are relative to the common ancestor.\n`
+
+  return `New commits since last review (${range}):
+${rewritten}
+**Commits (${comparison.commits.length}):**
+${commitList || '- None'}${omittedCommits > 0 ? `\n- ... and ${omittedCommits} earlier commits` : ''}
+
+**Files changed (${comparison.files.length}):**
+${fileList || '- None'}
+
+**Unresolved threads in changed files (${touched.length} of ${unresolved.length}) - verify these first:**
+${threadList}
+
+Use OpenCode tools (read, grep, glob) to verify if previous issues are addressed.
+Cross-file fixes are possible (e.g., issue in file_A.ts fixed by change in file_B.ts).`
+}
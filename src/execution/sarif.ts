@@ -0,0 +1,233 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+import type { FindingCategory } from '../config/constants.js'
+import { resolveFindingScoring } from '../config/scoring.js'
+import type { ReviewThread } from '../state/manager.js'
+import type { ReviewConfig } from './types.js'
+
+/**
+ * SARIF 2.1.0 export of review findings for GitHub code scanning
+ * (`github/codeql-action/upload-sarif`).
+ */
+
+export type SarifLevel = 'error' | 'warning' | 'note'
+
+type SarifRule = {
+  id: string
+  name: string
+  shortDescription: { text: string }
+  properties?: { tags: string[] }
+}
+
+type SarifResult = {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: { text: string }
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string }
+      region: { startLine: number; endLine: number }
+    }
+  }>
+  partialFingerprints: { rmcocThreadId: string }
+  properties: {
+    score: number
+    status: ReviewThread['status']
+    tags?: string[]
+    ruleRef?: string
+  }
+}
+
+export type SarifLog = {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string
+        informationUri: string
+        rules: SarifRule[]
+      }
+    }
+    results: SarifResult[]
+  }>
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const CATEGORY_RULES: Record<FindingCategory, SarifRule> = {
+  security: {
+    id: 'rmcoc/security',
+    name: 'SecurityIssue',
+    shortDescription: { text: 'Security vulnerability or unsafe handling' },
+    properties: { tags: ['security'] }
+  },
+  correctness: {
+    id: 'rmcoc/correctness',
+    name: 'CorrectnessIssue',
+    shortDescription: { text: 'Code that does not behave as intended' }
+  },
+  performance: {
+    id: 'rmcoc/performance',
+    name: 'PerformanceIssue',
+    shortDescription: { text: 'Avoidable performance cost' }
+  },
+  maintainability: {
+    id: 'rmcoc/maintainability',
+    name: 'MaintainabilityIssue',
+    shortDescription: { text: 'Code that is hard to change or understand' }
+  },
+  style: {
+    id: 'rmcoc/style',
+    name: 'StyleIssue',
+    shortDescription: { text: 'Style or formatting issue' }
+  },
+  'rule-violation': {
+    id: 'rmcoc/rule-violation',
+    name: 'RuleViolation',
+    shortDescription: { text: 'Violation of a repository rule (AGENTS.md)' }
+  },
+  testing: {
+    id: 'rmcoc/testing',
+    name: 'TestingIssue',
+    shortDescription: { text: 'Missing or inadequate tests' }
+  }
+}
+
+/**
+ * Rules for findings posted before categories existed
+ */
+const PASS_RULES: Record<number, SarifRule> = {
+  1: {
+    id: 'rmcoc/atomic-diff',
+    name: 'AtomicDiffReview',
+    shortDescription: { text: 'Issue found in line-by-line diff review' }
+  },
+  2: {
+    id: 'rmcoc/structural',
+    name: 'StructuralReview',
+    shortDescription: {
+      text: 'Issue found in structural and architectural review'
+    }
+  },
+  3: {
+    id: 'rmcoc/security-compliance',
+    name: 'SecurityComplianceReview',
+    shortDescription: { text: 'Issue found in security and compliance review' },
+    properties: { tags: ['security'] }
+  }
+}
+
+const FALLBACK_RULE: SarifRule = {
+  id: 'rmcoc/finding',
+  name: 'ReviewFinding',
+  shortDescription: { text: 'Issue found in code review' }
+}
+
+/**
+ * Blocking findings are errors, reportable ones warnings and anything below
+ * the problem threshold a note
+ */
+export function getSarifLevel(
+  scoring: ReviewConfig['scoring'],
+  thread: ReviewThread
+): SarifLevel {
+  const resolved = resolveFindingScoring(
+    scoring,
+    thread.file,
+    thread.assessment.category
+  )
+
+  if (!resolved.ignored && thread.score >= resolved.blockingThreshold) {
+    return 'error'
+  }
+
+  return thread.score >= resolved.problemThreshold ? 'warning' : 'note'
+}
+
+/**
+ * Build a SARIF log of all active threads. Threads on the base version of a
+ * file (LEFT side) are skipped as code scanning only knows the head version.
+ */
+export function buildSarifLog(
+  threads: ReviewThread[],
+  config: ReviewConfig
+): SarifLog {
+  const active = threads.filter(
+    (t) => t.status !== 'RESOLVED' && t.side !== 'LEFT'
+  )
+
+  const rules: SarifRule[] = []
+  const ruleIndex = (thread: ReviewThread): number => {
+    const { category } = thread.assessment
+    const rule =
+      (category ? CATEGORY_RULES[category] : undefined) ??
+      (thread.pass !== undefined ? PASS_RULES[thread.pass] : undefined) ??
+      FALLBACK_RULE
+    const index = rules.indexOf(rule)
+    return index >= 0 ? index : rules.push(rule) - 1
+  }
+
+  const results = active.map((thread): SarifResult => {
+    const index = ruleIndex(thread)
+
+    return {
+      ruleId: rules[index]?.id ?? FALLBACK_RULE.id,
+      ruleIndex: index,
+      level: getSarifLevel(config.scoring, thread),
+      message: {
+        text: `${thread.assessment.finding}\n\n${thread.assessment.assessment}`
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: thread.file, uriBaseId: '%SRCROOT%' },
+            region: {
+              startLine: thread.start_line ?? thread.line,
+              endLine: thread.line
+            }
+          }
+        }
+      ],
+      partialFingerprints: { rmcocThreadId: thread.id },
+      properties: {
+        score: thread.score,
+        status: thread.status,
+        tags: thread.assessment.tags,
+        ruleRef: thread.assessment.ruleRef
+      }
+    }
+  })
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'rmc-oc',
+            informationUri: 'https://github.com/tomsjansons/rmc-oc',
+            rules
+          }
+        },
+        results
+      }
+    ]
+  }
+}
+
+export async function writeSarifFile(
+  path: string,
+  threads: ReviewThread[],
+  config: ReviewConfig
+): Promise<number> {
+  const log = buildSarifLog(threads, config)
+
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(log, null, 2)}\n`, 'utf8')
+
+  return log.runs[0]?.results.length ?? 0
+}
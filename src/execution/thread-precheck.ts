@@ -0,0 +1,125 @@
+import type { ComparedFile } from '../github/api.js'
+import {
+  type LineMapping,
+  mapLineThroughHunks,
+  parsePatch
+} from '../github/diff.js'
+import type { ReviewThread } from '../state/manager.js'
+
+/**
+ * What happened to the code a thread refers to between the last reviewed
+ * commit and HEAD
+ */
+export type ThreadPrecheck =
+  /** The file was not touched */
+  | { outcome: 'unchanged' }
+  /** The code is intact but now lives at another line or path */
+  | { outcome: 'moved'; file: string; line: number; startLine?: number }
+  /** Some of the lines were rewritten - only the agent can tell if it's fixed */
+  | { outcome: 'modified' }
+  /** Every line of the thread was deleted */
+  | { outcome: 'line-deleted' }
+  | { outcome: 'file-deleted' }
+  /** The diff cannot be mapped (binary file, patch too large, LEFT side) */
+  | { outcome: 'unknown'; reason: string }
+  /**
+   * The commit the thread's lines refer to is unknown or cannot be compared
+   * with HEAD, so the lines may be stale
+   */
+  | { outcome: 'outdated'; reason: string }
+
+/**
+ * Deterministically map a thread's location through the diff between the
+ * commit its lines refer to (`anchor_sha`) and HEAD. Threads with outcome
+ * `line-deleted` or `file-deleted` refer to code that no longer exists and can
+ * be resolved without asking the agent.
+ */
+export function precheckThread(
+  thread: ReviewThread,
+  files: ComparedFile[]
+): ThreadPrecheck {
+  if (thread.side === 'LEFT') {
+    return { outcome: 'unknown', reason: 'comment on the base version' }
+  }
+
+  const file =
+    files.find((f) => f.previousFilename === thread.file) ??
+    files.find((f) => f.filename === thread.file)
+  if (!file) {
+    return { outcome: 'unchanged' }
+  }
+
+  if (file.status === 'removed') {
+    return { outcome: 'file-deleted' }
+  }
+
+  const renamed = file.filename !== thread.file
+  if (file.patch === undefined) {
+    // A pure rename has no patch but keeps every line
+    return renamed && file.status === 'renamed'
+      ? {
+          outcome: 'moved',
+          file: file.filename,
+          line: thread.line,
+          startLine: thread.start_line
+        }
+      : { outcome: 'unknown', reason: 'diff not available' }
+  }
+
+  const hunks = parsePatch(file.patch)
+  const startLine = thread.start_line ?? thread.line
+  const mappings: LineMapping[] = []
+  for (let line = startLine; line <= thread.line; line++) {
+    mappings.push(mapLineThroughHunks(hunks, line))
+  }
+
+  if (mappings.length === 0) {
+    return { outcome: 'unknown', reason: 'empty line range' }
+  }
+
+  if (mappings.every((m) => m.status === 'removed' && !m.replaced)) {
+    return { outcome: 'line-deleted' }
+  }
+
+  if (mappings.some((m) => m.status === 'removed')) {
+    return { outcome: 'modified' }
+  }
+
+  const newStart = mappings[0]
+  const newEnd = mappings[mappings.length - 1]
+  if (newStart?.status !== 'kept' || newEnd?.status !== 'kept') {
+    return { outcome: 'modified' }
+  }
+
+  if (!renamed && newEnd.line === thread.line) {
+    return { outcome: 'unchanged' }
+  }
+
+  return {
+    outcome: 'moved',
+    file: file.filename,
+    line: newEnd.line,
+    startLine: thread.start_line !== undefined ? newStart.line : undefined
+  }
+}
+
+/**
+ * Short note about a thread's pre-check outcome for the fix verification
+ * prompt, or null when there is nothing to add
+ */
+export function describeThreadPrecheck(
+  precheck: ThreadPrecheck
+): string | null {
+  switch (precheck.outcome) {
+    case 'moved':
+      return `code unchanged, now at ${precheck.file}:${precheck.startLine !== undefined ? `${precheck.startLine}-` : ''}${precheck.line}`
+    case 'modified':
+      return 'code at this location was modified since the last review'
+    case 'unknown':
+      return `could not map through the diff: ${precheck.reason}`
+    case 'outdated':
+      return `line numbers may be stale: ${precheck.reason}`
+    default:
+      return null
+  }
+}
@@ -5,26 +5,77 @@ export type ExecutionMode =
   | 'dispute-resolution'
   | 'question-answering'
 
+import type { FindingCategory, LLMProvider } from '../config/constants.js'
 import type { QuestionContext, DisputeContext } from '../task/types.js'
 
+export type ConfigLocation = {
+  line: number
+  column: number
+}
+
+/**
+ * Repository configuration file that contributed settings to a ReviewConfig
+ */
+export type ConfigFileSource = {
+  /** Path of the file relative to the workspace root */
+  path: string
+  /** Locations of the settings taken from the file, keyed by file key path */
+  locations: Record<string, ConfigLocation>
+}
+
+/**
+ * Per-path scoring override. Rules are matched against repository-relative
+ * file paths in order; later matching rules take precedence.
+ */
+export type PathScoringRule = {
+  /** Glob pattern, e.g. `src/payments/**` */
+  pattern: string
+  problemThreshold?: number
+  blockingThreshold?: number
+  /** Exclude matching files from review entirely */
+  ignore?: boolean
+}
+
+/**
+ * Per-category thresholds. They apply after path rules, so a category policy
+ * holds across the whole repository.
+ */
+export type CategoryScoringRule = {
+  problemThreshold?: number
+  blockingThreshold?: number
+}
+
 export type ReviewConfig = {
   opencode: {
+    /** LLM API used by OpenCode and the direct LLM client */
+    provider: LLMProvider
     apiKey: string
+    /** API base URL; required for openai-compatible, an override otherwise */
+    baseUrl: string | null
+    /** Verify key and model before starting work on pending tasks */
+    preflightCheck: boolean
     model: string
+    /** Models tried in order when the model in use fails or answers empty */
+    fallbackModels: string[]
     enableWeb: boolean
     debugLogging: boolean
   }
   security: {
     injectionDetectionEnabled: boolean
     injectionVerificationModel: string
+    injectionVerificationFallbackModels: string[]
   }
   scoring: {
     problemThreshold: number
     blockingThreshold: number
+    pathRules: PathScoringRule[]
+    categoryRules: Partial<Record<FindingCategory, CategoryScoringRule>>
   }
   review: {
     timeoutMs: number
     maxRetries: number
+    /** Allow committable ```suggestion blocks for small fixes */
+    enableSuggestions: boolean
   }
   github: {
     token: string
@@ -36,6 +87,21 @@ export type ReviewConfig = {
     enableHumanEscalation: boolean
     humanReviewers: string[]
   }
+  reporting: {
+    /** Publish results as a GitHub check run with line annotations */
+    checkRun: boolean
+    /** Submit APPROVE / REQUEST_CHANGES pull request reviews */
+    pullRequestReview: boolean
+    /** Write active threads as SARIF 2.1.0 to this path; null disables it */
+    sarifOutputPath: string | null
+  }
+  /** Per-run usage limits; null means unlimited */
+  budget: {
+    maxCostUsd: number | null
+    maxTokens: number | null
+    /** Direct LLM requests allowed per run, retries included */
+    maxLlmRequests: number | null
+  }
   execution: {
     mode: ExecutionMode
     questionContext?: QuestionContext
@@ -47,6 +113,7 @@ export type ReviewConfig = {
       enableEndComment: boolean
     }
   }
+  configFile?: ConfigFileSource
 }
 
 export type PassResult = {
@@ -59,4 +126,8 @@ export type ReviewOutput = {
   status: 'completed' | 'failed' | 'has_blocking_issues'
   issuesFound: number
   blockingIssues: number
+  /** Whether the check run was completed with the review's conclusion */
+  checkRunCompleted?: boolean
+  /** Head commit the review looked at */
+  reviewedSha?: string
 }
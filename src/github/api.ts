@@ -1,41 +1,170 @@
-import { Octokit } from '@octokit/rest'
-import type { RestEndpointMethodTypes } from '@octokit/rest'
+import type { Octokit, RestEndpointMethodTypes } from '@octokit/rest'
 
 import { BOT_USERS } from '../config/constants.js'
 import type { ReviewConfig } from '../execution/types.js'
+import type { RmcocBlock } from '../state/serializer.js'
 import { GitHubAPIError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import type { PullRequestFileDiff } from './diff.js'
+import { type ReviewComment, ReviewCommentIndex } from './review-comments.js'
+import { fetchReviewThreads } from './review-threads.js'
+import { createOctokit } from './throttling.js'
 
 type IssueComment =
   RestEndpointMethodTypes['issues']['listComments']['response']['data'][0]
-type ReviewComment =
-  RestEndpointMethodTypes['pulls']['listReviewComments']['response']['data'][0]
+type PullRequestReview =
+  RestEndpointMethodTypes['pulls']['listReviews']['response']['data'][0]
+
+export type PullRequestReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
+
+/**
+ * Side of the diff a review comment refers to: LEFT for the base version
+ * (deleted lines), RIGHT for the head version
+ */
+export type DiffSide = 'LEFT' | 'RIGHT'
 
 export type PostReviewCommentArgs = {
   path: string
   line: number
+  /** First line of a multi-line comment, `line` being the last */
+  startLine?: number
+  /** Defaults to RIGHT */
+  side?: DiffSide
   body: string
 }
 
+/**
+ * Format a comment location as `path:line` or `path:start-end`
+ */
+export function formatLineRange(
+  path: string,
+  line: number,
+  startLine?: number
+): string {
+  return startLine !== undefined && startLine !== line
+    ? `${path}:${startLine}-${line}`
+    : `${path}:${line}`
+}
+
+export type ComparedCommit = {
+  sha: string
+  message: string
+  author: string
+}
+
+export type ComparedFile = PullRequestFileDiff & {
+  additions: number
+  deletions: number
+}
+
+/**
+ * Changes between two commits. `status` is 'ahead' when head descends from
+ * base, 'diverged' or 'behind' after a force-push rewrote history.
+ */
+export type CommitComparison = {
+  status: 'ahead' | 'behind' | 'diverged' | 'identical'
+  aheadBy: number
+  behindBy: number
+  commits: ComparedCommit[]
+  files: ComparedFile[]
+}
+
+export type CheckRunAnnotation = {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: 'notice' | 'warning' | 'failure'
+  title?: string
+  message: string
+}
+
+export type CheckRunOutput = {
+  title: string
+  summary: string
+  annotations?: CheckRunAnnotation[]
+}
+
+export type UpdateCheckRunArgs = {
+  status?: 'queued' | 'in_progress' | 'completed'
+  conclusion?: 'success' | 'failure' | 'neutral' | 'cancelled'
+  output?: CheckRunOutput
+}
+
+/**
+ * GitHub rejects check run updates with more than 50 annotations
+ */
+const MAX_ANNOTATIONS_PER_REQUEST = 50
+
+const PENDING_COMMENT_ID_PREFIX = 'pending:'
+
+/**
+ * Whether a comment ID is a placeholder for a comment queued in a review batch
+ */
+export function isPendingCommentId(commentId: string): boolean {
+  return commentId.startsWith(PENDING_COMMENT_ID_PREFIX)
+}
+
+/**
+ * Whether a developer replied in a thread after the bot's last comment
+ */
+export function hasNewDeveloperReply(comments: ReviewComment[]): boolean {
+  const lastBotComment = comments
+    .filter((c) => BOT_USERS.includes(c.user?.login || ''))
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )[0]
+
+  if (!lastBotComment) {
+    return false
+  }
+
+  return comments.some(
+    (c) =>
+      !BOT_USERS.includes(c.user?.login || '') &&
+      new Date(c.created_at) > new Date(lastBotComment.created_at)
+  )
+}
+
+type PendingReviewComment = {
+  pendingId: string
+  args: PostReviewCommentArgs
+}
+
 export class GitHubAPI {
   private octokit: Octokit
   private owner: string
   private repo: string
   private prNumber: number
+  private reviewBatch: PendingReviewComment[] | null = null
+  private nextPendingCommentId = 1
+  private earlySubmittedCommentIds = new Map<string, string>()
+  private reviewComments: ReviewCommentIndex
 
   constructor(config: ReviewConfig) {
-    this.octokit = new Octokit({
-      auth: config.github.token
-    })
+    this.octokit = createOctokit(config.github.token)
     this.owner = config.github.owner
     this.repo = config.github.repo
     this.prNumber = config.github.prNumber
+    this.reviewComments = new ReviewCommentIndex(
+      this.octokit,
+      this.owner,
+      this.repo,
+      this.prNumber
+    )
   }
 
   getOctokit(): Octokit {
     return this.octokit
   }
 
+  /**
+   * Review comment index shared with StateManager for the whole run
+   */
+  getReviewCommentIndex(): ReviewCommentIndex {
+    return this.reviewComments
+  }
+
   async getPRFiles(): Promise<string[]> {
     try {
       logger.debug(
@@ -63,6 +192,88 @@ export class GitHubAPI {
     }
   }
 
+  /**
+   * Fetch changed files together with their unified diff patches
+   */
+  async getPRFileDiffs(): Promise<PullRequestFileDiff[]> {
+    try {
+      logger.debug(
+        `Fetching PR file diffs for ${this.owner}/${this.repo}#${this.prNumber}`
+      )
+
+      return await this.octokit.paginate(
+        this.octokit.pulls.listFiles,
+        {
+          owner: this.owner,
+          repo: this.repo,
+          pull_number: this.prNumber,
+          per_page: 100
+        },
+        (response) =>
+          response.data.map((file) => ({
+            filename: file.filename,
+            status: file.status,
+            previousFilename: file.previous_filename,
+            patch: file.patch
+          }))
+      )
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to fetch PR file diffs: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Compare two commits. Returns null when the base commit no longer exists,
+   * e.g. after a force-push once it was garbage collected.
+   */
+  async compareCommits(
+    base: string,
+    head: string
+  ): Promise<CommitComparison | null> {
+    try {
+      logger.debug(
+        `Comparing ${base.substring(0, 7)}...${head.substring(0, 7)} in ${this.owner}/${this.repo}`
+      )
+
+      const response = await this.octokit.repos.compareCommitsWithBasehead({
+        owner: this.owner,
+        repo: this.repo,
+        basehead: `${base}...${head}`
+      })
+
+      return {
+        status: response.data.status,
+        aheadBy: response.data.ahead_by,
+        behindBy: response.data.behind_by,
+        commits: response.data.commits.map((commit) => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author:
+            commit.author?.login || commit.commit.author?.name || 'unknown'
+        })),
+        files: (response.data.files ?? []).map((file) => ({
+          filename: file.filename,
+          status: file.status,
+          previousFilename: file.previous_filename,
+          patch: file.patch,
+          additions: file.additions,
+          deletions: file.deletions
+        }))
+      }
+    } catch (error) {
+      if (error instanceof Error && 'status' in error && error.status === 404) {
+        logger.debug(`Commit ${base.substring(0, 7)} is no longer reachable`)
+        return null
+      }
+
+      throw new GitHubAPIError(
+        `Failed to compare commits: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
   async getPRContext(): Promise<{ files: string[] }> {
     try {
       logger.debug('Fetching PR context for question answering')
@@ -112,10 +323,160 @@ export class GitHubAPI {
     }
   }
 
+  /**
+   * Start collecting review comments instead of posting them immediately.
+   * Queued comments get placeholder IDs until submitReviewBatch() is called.
+   */
+  startReviewBatch(): void {
+    if (!this.reviewBatch) {
+      this.reviewBatch = []
+    }
+  }
+
+  /**
+   * Submit all queued comments as a single pull request review and stop
+   * batching. Falls back to posting the comments individually when the review
+   * cannot be created.
+   *
+   * @param body - Review body shown above the comments
+   * @returns Mapping from placeholder IDs to the IDs of the posted comments
+   */
+  async submitReviewBatch(body: string): Promise<Map<string, string>> {
+    const mapping = await this.flushReviewBatch(body)
+    this.reviewBatch = null
+
+    for (const [pendingId, commentId] of this.earlySubmittedCommentIds) {
+      mapping.set(pendingId, commentId)
+    }
+    this.earlySubmittedCommentIds.clear()
+
+    return mapping
+  }
+
   async postReviewComment(args: PostReviewCommentArgs): Promise<string> {
+    if (this.reviewBatch) {
+      const pendingId = `${PENDING_COMMENT_ID_PREFIX}${this.nextPendingCommentId++}`
+      this.reviewBatch.push({ pendingId, args })
+      logger.debug(
+        `Queued review comment ${pendingId} on ${formatLineRange(args.path, args.line, args.startLine)}`
+      )
+      return pendingId
+    }
+
+    return this.postSingleReviewComment(args)
+  }
+
+  private async flushReviewBatch(body: string): Promise<Map<string, string>> {
+    const batch = this.reviewBatch ?? []
+    const mapping = new Map<string, string>()
+
+    if (batch.length === 0) {
+      return mapping
+    }
+    this.reviewBatch = []
+
+    try {
+      logger.debug(
+        `Submitting review with ${batch.length} comments in PR #${this.prNumber}`
+      )
+
+      const commitId = await this.getCurrentSHA()
+
+      const review = await this.octokit.pulls.createReview({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: this.prNumber,
+        commit_id: commitId,
+        event: 'COMMENT',
+        body,
+        comments: batch.map(({ args }) => ({
+          path: args.path,
+          line: args.line,
+          start_line: args.startLine,
+          side: args.side ?? 'RIGHT',
+          start_side: args.startLine ? (args.side ?? 'RIGHT') : undefined,
+          body: args.body
+        }))
+      })
+
+      const created = await this.octokit.paginate(
+        this.octokit.pulls.listCommentsForReview,
+        {
+          owner: this.owner,
+          repo: this.repo,
+          pull_number: this.prNumber,
+          review_id: review.data.id,
+          per_page: 100
+        }
+      )
+
+      batch.forEach(({ pendingId, args }, index) => {
+        const comment =
+          created.find((c) => c.path === args.path && c.body === args.body) ??
+          (created.length === batch.length ? created[index] : undefined)
+
+        if (comment) {
+          mapping.set(pendingId, String(comment.id))
+        } else {
+          logger.warning(
+            `Could not find posted comment for ${args.path}:${args.line} in review ${review.data.id}`
+          )
+        }
+      })
+
+      this.reviewComments.invalidate()
+      logger.info(
+        `Submitted review ${review.data.id} with ${batch.length} comments`
+      )
+    } catch (error) {
+      logger.warning(
+        `Failed to submit batched review, posting ${batch.length} comments individually: ${error instanceof Error ? error.message : String(error)}`
+      )
+
+      for (const { pendingId, args } of batch) {
+        try {
+          mapping.set(pendingId, await this.postSingleReviewComment(args))
+        } catch (postError) {
+          logger.error(
+            `Failed to post review comment on ${args.path}:${args.line}: ${postError instanceof Error ? postError.message : String(postError)}`
+          )
+        }
+      }
+    }
+
+    return mapping
+  }
+
+  /**
+   * Replies need a real comment ID, so a reply to a queued comment submits the
+   * current batch early
+   */
+  private async resolveCommentId(threadId: string): Promise<string> {
+    if (!isPendingCommentId(threadId)) {
+      return threadId
+    }
+
+    if (!this.earlySubmittedCommentIds.has(threadId)) {
+      const mapping = await this.flushReviewBatch('Review in progress.')
+      for (const [pendingId, commentId] of mapping) {
+        this.earlySubmittedCommentIds.set(pendingId, commentId)
+      }
+    }
+
+    const commentId = this.earlySubmittedCommentIds.get(threadId)
+    if (!commentId) {
+      throw new GitHubAPIError(`Comment ${threadId} was never posted`)
+    }
+
+    return commentId
+  }
+
+  private async postSingleReviewComment(
+    args: PostReviewCommentArgs
+  ): Promise<string> {
     try {
       logger.debug(
-        `Posting review comment on ${args.path}:${args.line} in PR #${this.prNumber}`
+        `Posting review comment on ${formatLineRange(args.path, args.line, args.startLine)} in PR #${this.prNumber}`
       )
 
       const pr = await this.octokit.pulls.get({
@@ -133,11 +494,14 @@ export class GitHubAPI {
         commit_id: commitId,
         path: args.path,
         line: args.line,
+        start_line: args.startLine,
         body: args.body,
-        side: 'RIGHT'
+        side: args.side ?? 'RIGHT',
+        start_side: args.startLine ? (args.side ?? 'RIGHT') : undefined
       })
 
       const commentId = String(response.data.id)
+      this.reviewComments.invalidate()
 
       logger.info(`Posted review comment: ID ${commentId}`)
 
@@ -165,7 +529,8 @@ export class GitHubAPI {
     args: PostReviewCommentArgs
   ): Promise<string> {
     try {
-      const bodyWithLocation = `📍 **Location:** \`${args.path}:${args.line}\`\n\n${args.body}`
+      const location = formatLineRange(args.path, args.line, args.startLine)
+      const bodyWithLocation = `📍 **Location:** \`${location}\`${args.side === 'LEFT' ? ' (base version)' : ''}\n\n${args.body}`
 
       const response = await this.octokit.issues.createComment({
         owner: this.owner,
@@ -190,13 +555,16 @@ export class GitHubAPI {
     try {
       logger.debug(`Replying to comment thread ${threadId}`)
 
+      const commentId = await this.resolveCommentId(threadId)
+
       await this.octokit.pulls.createReplyForReviewComment({
         owner: this.owner,
         repo: this.repo,
         pull_number: this.prNumber,
-        comment_id: Number(threadId),
+        comment_id: Number(commentId),
         body
       })
+      this.reviewComments.invalidate()
 
       logger.info(`Replied to comment thread ${threadId}`)
     } catch (error) {
@@ -206,19 +574,26 @@ export class GitHubAPI {
     }
   }
 
-  async resolveThread(threadId: string, reason: string): Promise<void> {
+  async resolveThread(
+    threadId: string,
+    reason: string,
+    rmcocBlock?: RmcocBlock
+  ): Promise<void> {
     try {
       logger.debug(`Resolving thread ${threadId}`)
 
+      const commentId = await this.resolveCommentId(threadId)
+
       await this.octokit.pulls.createReplyForReviewComment({
         owner: this.owner,
         repo: this.repo,
         pull_number: this.prNumber,
-        comment_id: Number(threadId),
-        body: `✅ **Issue Resolved**\n\n${reason}\n\n\`\`\`rmcoc\n{"status": "RESOLVED"}\n\`\`\``
+        comment_id: Number(commentId),
+        body: `✅ **Issue Resolved**\n\n${reason}\n\n\`\`\`rmcoc\n${rmcocBlock ? JSON.stringify(rmcocBlock, null, 2) : '{"status": "RESOLVED"}'}\n\`\`\``
       })
+      this.reviewComments.invalidate()
 
-      await this.resolveReviewThread(threadId)
+      await this.resolveReviewThread(commentId)
 
       logger.info(`Resolved thread ${threadId}`)
     } catch (error) {
@@ -270,54 +645,17 @@ export class GitHubAPI {
 
   private async getReviewThreadId(commentId: string): Promise<string | null> {
     try {
-      const result = await this.octokit.graphql<{
-        repository: {
-          pullRequest: {
-            reviewThreads: {
-              nodes: Array<{
-                id: string
-                comments: {
-                  nodes: Array<{
-                    databaseId: number
-                  }>
-                }
-              }>
-            }
-          }
-        }
-      }>(
-        `query GetThreadId($owner: String!, $repo: String!, $prNumber: Int!) {
-          repository(owner: $owner, name: $repo) {
-            pullRequest(number: $prNumber) {
-              reviewThreads(first: 100) {
-                nodes {
-                  id
-                  comments(first: 1) {
-                    nodes {
-                      databaseId
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }`,
-        {
-          owner: this.owner,
-          repo: this.repo,
-          prNumber: this.prNumber
-        }
+      const threads = await fetchReviewThreads(
+        this.octokit,
+        this.owner,
+        this.repo,
+        this.prNumber
       )
 
-      const threads = result.repository.pullRequest.reviewThreads.nodes
-      for (const thread of threads) {
-        const firstComment = thread.comments.nodes[0]
-        if (firstComment && String(firstComment.databaseId) === commentId) {
-          return thread.id
-        }
-      }
-
-      return null
+      return (
+        threads.find((thread) => String(thread.rootCommentId) === commentId)
+          ?.id ?? null
+      )
     } catch (error) {
       logger.warning(
         `Failed to get review thread ID: ${error instanceof Error ? error.message : String(error)}`
@@ -343,12 +681,13 @@ export class GitHubAPI {
       }
 
       const reviewerTags = reviewers.map((r) => `@${r}`).join(' ')
+      const commentId = await this.resolveCommentId(threadId)
 
       await this.octokit.pulls.createReplyForReviewComment({
         owner: this.owner,
         repo: this.repo,
         pull_number: this.prNumber,
-        comment_id: Number(threadId),
+        comment_id: Number(commentId),
         body: `🔺 **Escalated to Human Review**
 
 This issue has an unresolved dispute between the review agent and the developer. Human judgment is needed.
@@ -365,6 +704,7 @@ ${reviewerTags} - Please review this dispute and make a final decision.
 {"status": "ESCALATED"}
 \`\`\``
       })
+      this.reviewComments.invalidate()
 
       logger.info(`Escalated thread ${threadId} to ${reviewers.join(', ')}`)
     } catch (error) {
@@ -536,23 +876,8 @@ ${reviewerTags} - Please review this dispute and make a final decision.
     try {
       logger.debug(`Checking for new developer replies in thread ${threadId}`)
 
-      const comments = await this.getThreadComments(threadId)
-
-      const lastBotComment = comments
-        .filter((c) => BOT_USERS.includes(c.user?.login || ''))
-        .sort(
-          (a, b) =>
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        )[0]
-
-      if (!lastBotComment) {
-        return false
-      }
-
-      const hasNewReply = comments.some(
-        (c) =>
-          !BOT_USERS.includes(c.user?.login || '') &&
-          new Date(c.created_at) > new Date(lastBotComment.created_at)
+      const hasNewReply = hasNewDeveloperReply(
+        await this.getThreadComments(threadId)
       )
 
       logger.debug(`Thread ${threadId} has new developer reply: ${hasNewReply}`)
@@ -569,8 +894,165 @@ ${reviewerTags} - Please review this dispute and make a final decision.
     try {
       logger.debug(`Fetching comments for thread ${threadId}`)
 
-      const comments = await this.octokit.paginate(
-        this.octokit.pulls.listReviewComments,
+      const threadComments = await this.reviewComments.getThread(threadId)
+
+      logger.debug(
+        `Found ${threadComments.length} comments in thread ${threadId}`
+      )
+
+      return threadComments
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to fetch thread comments: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Comments of several threads, keyed by thread ID. All threads are served
+   * from the one paginated fetch of the review comment index, so checking
+   * every thread of a large PR costs no extra requests.
+   */
+  async getThreadsComments(
+    threadIds: string[]
+  ): Promise<Map<string, ReviewComment[]>> {
+    try {
+      logger.debug(`Fetching comments for ${threadIds.length} threads`)
+
+      return await this.reviewComments.getThreads(threadIds)
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to fetch thread comments: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  async createCheckRun(
+    name: string,
+    headSha: string,
+    output: CheckRunOutput
+  ): Promise<number> {
+    try {
+      logger.debug(`Creating check run "${name}" for ${headSha}`)
+
+      const response = await this.octokit.checks.create({
+        owner: this.owner,
+        repo: this.repo,
+        name,
+        head_sha: headSha,
+        status: 'in_progress',
+        started_at: new Date().toISOString(),
+        output: {
+          title: output.title,
+          summary: output.summary
+        }
+      })
+
+      logger.info(`Created check run "${name}": ID ${response.data.id}`)
+
+      return response.data.id
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to create check run: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Update a check run. Annotations are appended to the ones already on the
+   * check run and are sent in batches to stay within API limits.
+   */
+  async updateCheckRun(
+    checkRunId: number,
+    args: UpdateCheckRunArgs
+  ): Promise<void> {
+    try {
+      logger.debug(`Updating check run ${checkRunId}`)
+
+      const annotations = args.output?.annotations ?? []
+      const batches: CheckRunAnnotation[][] = []
+      for (
+        let i = 0;
+        i < annotations.length;
+        i += MAX_ANNOTATIONS_PER_REQUEST
+      ) {
+        batches.push(annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST))
+      }
+
+      // Send annotation batches first so the final request can complete the run
+      for (const batch of batches.slice(0, -1)) {
+        await this.octokit.checks.update({
+          owner: this.owner,
+          repo: this.repo,
+          check_run_id: checkRunId,
+          output: args.output && {
+            title: args.output.title,
+            summary: args.output.summary,
+            annotations: batch
+          }
+        })
+      }
+
+      await this.octokit.checks.update({
+        owner: this.owner,
+        repo: this.repo,
+        check_run_id: checkRunId,
+        status: args.status,
+        conclusion: args.conclusion,
+        completed_at: args.conclusion ? new Date().toISOString() : undefined,
+        output: args.output && {
+          title: args.output.title,
+          summary: args.output.summary,
+          annotations: batches[batches.length - 1]
+        }
+      })
+
+      logger.debug(`Updated check run ${checkRunId}`)
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to update check run: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  async submitPullRequestReview(
+    event: PullRequestReviewEvent,
+    body: string,
+    commitId: string
+  ): Promise<string> {
+    try {
+      logger.debug(`Submitting ${event} review on PR #${this.prNumber}`)
+
+      const response = await this.octokit.pulls.createReview({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: this.prNumber,
+        commit_id: commitId,
+        event,
+        body
+      })
+
+      const reviewId = String(response.data.id)
+
+      logger.info(`Submitted ${event} review: ID ${reviewId}`)
+
+      return reviewId
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to submit pull request review: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * List pull request reviews submitted by the bot, oldest first
+   */
+  async getOwnPullRequestReviews(): Promise<PullRequestReview[]> {
+    try {
+      logger.debug('Fetching own pull request reviews')
+
+      const reviews = await this.octokit.paginate(
+        this.octokit.pulls.listReviews,
         {
           owner: this.owner,
           repo: this.repo,
@@ -579,21 +1061,33 @@ ${reviewerTags} - Please review this dispute and make a final decision.
         }
       )
 
-      const threadComments = comments.filter(
-        (c) =>
-          String(c.id) === threadId ||
-          String(c.in_reply_to_id) === threadId ||
-          c.in_reply_to_id === Number(threadId)
+      return reviews.filter((r) => BOT_USERS.includes(r.user?.login || ''))
+    } catch (error) {
+      throw new GitHubAPIError(
+        `Failed to fetch pull request reviews: ${error instanceof Error ? error.message : String(error)}`
       )
+    }
+  }
 
-      logger.debug(
-        `Found ${threadComments.length} comments in thread ${threadId}`
-      )
+  async dismissPullRequestReview(
+    reviewId: string,
+    message: string
+  ): Promise<void> {
+    try {
+      logger.debug(`Dismissing pull request review ${reviewId}`)
 
-      return threadComments
+      await this.octokit.pulls.dismissReview({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: this.prNumber,
+        review_id: Number(reviewId),
+        message
+      })
+
+      logger.info(`Dismissed pull request review ${reviewId}`)
     } catch (error) {
       throw new GitHubAPIError(
-        `Failed to fetch thread comments: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to dismiss pull request review: ${error instanceof Error ? error.message : String(error)}`
       )
     }
   }
@@ -0,0 +1,206 @@
+import { isBlockingScore, resolvePathScoring } from '../config/scoring.js'
+import type {
+  PassResult,
+  ReviewConfig,
+  ReviewOutput
+} from '../execution/types.js'
+import type { ReviewThread } from '../state/manager.js'
+import { logger } from '../utils/logger.js'
+import {
+  type CheckRunAnnotation,
+  type GitHubAPI,
+  type UpdateCheckRunArgs,
+  formatLineRange
+} from './api.js'
+
+export const CHECK_RUN_NAME = 'rmc-oc review'
+
+/**
+ * Publishes review progress and results as a GitHub check run.
+ *
+ * Check run failures are logged and never interrupt the review itself.
+ */
+export class CheckRunReporter {
+  private checkRunId: number | null = null
+  private annotatedThreadIds = new Set<string>()
+
+  constructor(
+    private github: GitHubAPI,
+    private config: ReviewConfig
+  ) {}
+
+  /**
+   * Create the check run for a review. Reviews that do not affect the merge
+   * gate (manual reviews) leave the check alone: GitHub uses the latest check
+   * run of a name on a commit, so their results would replace the gate's.
+   */
+  async start(headSha: string, affectsMergeGate: boolean): Promise<void> {
+    this.annotatedThreadIds.clear()
+    this.checkRunId = null
+    if (!affectsMergeGate) {
+      logger.info(
+        `Review does not affect the merge gate, leaving the "${CHECK_RUN_NAME}" check unchanged`
+      )
+      return
+    }
+
+    try {
+      this.checkRunId = await this.github.createCheckRun(
+        CHECK_RUN_NAME,
+        headSha,
+        {
+          title: 'Review in progress',
+          summary: 'Review My Code, OpenCode! is reviewing this pull request.'
+        }
+      )
+    } catch (error) {
+      logger.warning(
+        `Failed to create check run: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  async update(threads: ReviewThread[], passes: PassResult[]): Promise<void> {
+    const completedPasses = passes.filter((p) => p.completed).length
+
+    await this.send(
+      'in_progress',
+      undefined,
+      `Review in progress (${completedPasses} of 3 passes completed)`,
+      threads
+    )
+  }
+
+  /**
+   * Complete the check run, failing it on blocking issues
+   *
+   * @returns Whether the check run was completed and carries the conclusion
+   */
+  async complete(
+    output: ReviewOutput,
+    threads: ReviewThread[]
+  ): Promise<boolean> {
+    const conclusion = output.status === 'completed' ? 'success' : 'failure'
+
+    const title =
+      output.issuesFound === 0
+        ? 'No issues found'
+        : `${output.issuesFound} issue(s), ${output.blockingIssues} blocking`
+
+    const completed = await this.send('completed', conclusion, title, threads)
+    this.checkRunId = null
+    return completed
+  }
+
+  async fail(message: string, threads: ReviewThread[]): Promise<void> {
+    await this.send(
+      'completed',
+      'failure',
+      'Review failed',
+      threads,
+      `**Review failed:** ${message}`
+    )
+    this.checkRunId = null
+  }
+
+  /**
+   * @returns Whether the check run was updated
+   */
+  private async send(
+    status: UpdateCheckRunArgs['status'],
+    conclusion: UpdateCheckRunArgs['conclusion'],
+    title: string,
+    threads: ReviewThread[],
+    summary?: string
+  ): Promise<boolean> {
+    if (this.checkRunId === null) {
+      return false
+    }
+
+    const activeThreads = threads.filter(
+      (t) =>
+        t.status !== 'RESOLVED' &&
+        !resolvePathScoring(this.config.scoring, t.file).ignored
+    )
+    // Annotations accumulate on the check run, so only send new ones.
+    // Annotations always refer to the head commit, so threads on deleted
+    // lines are only listed in the summary.
+    const newThreads = activeThreads.filter(
+      (t) => !this.annotatedThreadIds.has(t.id) && t.side !== 'LEFT'
+    )
+
+    try {
+      await this.github.updateCheckRun(this.checkRunId, {
+        status,
+        conclusion,
+        output: {
+          title,
+          summary: summary ?? buildCheckRunSummary(activeThreads, this.config),
+          annotations: newThreads.map((t) => buildAnnotation(t, this.config))
+        }
+      })
+
+      for (const thread of newThreads) {
+        this.annotatedThreadIds.add(thread.id)
+      }
+      return true
+    } catch (error) {
+      logger.warning(
+        `Failed to update check run: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return false
+    }
+  }
+}
+
+export function buildCheckRunSummary(
+  activeThreads: ReviewThread[],
+  config: ReviewConfig
+): string {
+  if (activeThreads.length === 0) {
+    return 'No active review threads.'
+  }
+
+  const rows = activeThreads.map((t) => {
+    const blocking = isBlockingScore(
+      config.scoring,
+      t.file,
+      t.score,
+      t.assessment.category
+    )
+    return `| \`${formatLineRange(t.file, t.line, t.start_line)}\` | ${t.score}${blocking ? ' 🚫' : ''} | ${t.status} | ${escapeTableCell(t.assessment.finding)} |`
+  })
+
+  return [
+    `**${activeThreads.length} active review thread(s)**`,
+    '',
+    '| Location | Score | Status | Finding |',
+    '| -------- | ----- | ------ | ------- |',
+    ...rows
+  ].join('\n')
+}
+
+function buildAnnotation(
+  thread: ReviewThread,
+  config: ReviewConfig
+): CheckRunAnnotation {
+  const blocking = isBlockingScore(
+    config.scoring,
+    thread.file,
+    thread.score,
+    thread.assessment.category
+  )
+
+  return {
+    path: thread.file,
+    start_line: thread.start_line ?? thread.line,
+    end_line: thread.line,
+    annotation_level: blocking ? 'failure' : 'warning',
+    title: `Score ${thread.score}${blocking ? ' (blocking)' : ''}`,
+    message: `${thread.assessment.finding}\n\n${thread.assessment.assessment}`
+  }
+}
+
+export function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
@@ -0,0 +1,247 @@
+/**
+ * Unified diff parsing for pull request file patches.
+ *
+ * GitHub only accepts review comments (and suggestions) on lines that are part
+ * of a diff hunk, so the patches returned by `pulls.listFiles` are indexed to
+ * validate line numbers before posting.
+ */
+
+import type { DiffSide } from './api.js'
+
+export type DiffLineType = 'context' | 'added' | 'removed'
+
+export type DiffLine = {
+  type: DiffLineType
+  /** Line number in the base version (absent for added lines) */
+  oldLine?: number
+  /** Line number in the head version (absent for removed lines) */
+  newLine?: number
+}
+
+export type DiffHunk = {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export type LineRange = {
+  startLine: number
+  endLine: number
+}
+
+export type PullRequestFileDiff = {
+  filename: string
+  status: string
+  previousFilename?: string
+  /** Missing for binary files and very large diffs */
+  patch?: string
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | null = null
+  let oldLine = 0
+  let newLine = 0
+
+  for (const text of patch.split('\n')) {
+    const header = HUNK_HEADER_PATTERN.exec(text)
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: []
+      }
+      hunks.push(current)
+      oldLine = current.oldStart
+      newLine = current.newStart
+      continue
+    }
+
+    // Skip "\ No newline at end of file" markers and trailing newlines
+    if (!current || text === '' || text.startsWith('\\')) {
+      continue
+    }
+
+    if (text.startsWith('+')) {
+      current.lines.push({ type: 'added', newLine: newLine++ })
+    } else if (text.startsWith('-')) {
+      current.lines.push({ type: 'removed', oldLine: oldLine++ })
+    } else {
+      current.lines.push({
+        type: 'context',
+        oldLine: oldLine++,
+        newLine: newLine++
+      })
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Index of the diff hunks of every file in a pull request
+ */
+export class DiffIndex {
+  private hunksByFile = new Map<string, DiffHunk[]>()
+  private filesByName = new Map<string, PullRequestFileDiff>()
+
+  constructor(files: PullRequestFileDiff[]) {
+    for (const file of files) {
+      this.filesByName.set(file.filename, file)
+      this.hunksByFile.set(file.filename, parsePatch(file.patch ?? ''))
+    }
+  }
+
+  hasFile(path: string): boolean {
+    return this.filesByName.has(path)
+  }
+
+  getFile(path: string): PullRequestFileDiff | undefined {
+    return this.filesByName.get(path)
+  }
+
+  getHunks(path: string): DiffHunk[] {
+    return this.hunksByFile.get(path) ?? []
+  }
+
+  /**
+   * Whether the patch of a file is available. GitHub omits it for binary files
+   * and very large diffs, in which case lines cannot be validated.
+   */
+  hasPatch(path: string): boolean {
+    return this.filesByName.get(path)?.patch !== undefined
+  }
+
+  /**
+   * Find the hunk containing a line of the head version (RIGHT) or base
+   * version (LEFT) of a file
+   */
+  findHunk(
+    path: string,
+    line: number,
+    side: DiffSide = 'RIGHT'
+  ): DiffHunk | null {
+    return (
+      this.getHunks(path).find((hunk) => {
+        const range = hunkRange(hunk, side)
+        return (
+          range !== null && line >= range.startLine && line <= range.endLine
+        )
+      }) ?? null
+    )
+  }
+
+  /**
+   * Line ranges GitHub accepts review comments on, one per hunk
+   */
+  getCommentableRanges(path: string, side: DiffSide = 'RIGHT'): LineRange[] {
+    return this.getHunks(path)
+      .map((hunk) => hunkRange(hunk, side))
+      .filter((range): range is LineRange => range !== null)
+  }
+
+  /**
+   * Find the commentable line closest to `line` on the given side, if a hunk
+   * lies within `maxDistance` lines. Lines outside every hunk snap to the
+   * nearest hunk edge; GitHub patches carry three context lines around each
+   * change, so measuring from changed lines would never reach them.
+   */
+  findNearestCommentableLine(
+    path: string,
+    line: number,
+    maxDistance: number,
+    side: DiffSide = 'RIGHT'
+  ): number | null {
+    let nearest: number | null = null
+
+    for (const range of this.getCommentableRanges(path, side)) {
+      const candidate = Math.min(Math.max(line, range.startLine), range.endLine)
+
+      if (
+        Math.abs(candidate - line) <= maxDistance &&
+        (nearest === null ||
+          Math.abs(candidate - line) < Math.abs(nearest - line))
+      ) {
+        nearest = candidate
+      }
+    }
+
+    return nearest
+  }
+}
+
+/**
+ * Where a line of the base version ended up in the head version
+ */
+export type LineMapping =
+  | { status: 'kept'; line: number }
+  /** `replaced` when the line was rewritten rather than only deleted */
+  | { status: 'removed'; replaced: boolean }
+
+/**
+ * Map a line of the base version of a file through its diff hunks
+ */
+export function mapLineThroughHunks(
+  hunks: DiffHunk[],
+  oldLine: number
+): LineMapping {
+  let offset = 0
+
+  for (const hunk of hunks) {
+    const containsLine =
+      oldLine >= hunk.oldStart && oldLine < hunk.oldStart + hunk.oldLines
+    if (!containsLine) {
+      // Pure insertions come after line `oldStart`
+      const isBefore =
+        hunk.oldLines === 0
+          ? hunk.oldStart < oldLine
+          : hunk.oldStart + hunk.oldLines <= oldLine
+      if (isBefore) {
+        offset += hunk.newLines - hunk.oldLines
+      }
+      continue
+    }
+
+    const index = hunk.lines.findIndex((l) => l.oldLine === oldLine)
+    const diffLine = hunk.lines[index]
+    if (!diffLine) {
+      break
+    }
+    if (diffLine.type === 'context' && diffLine.newLine !== undefined) {
+      return { status: 'kept', line: diffLine.newLine }
+    }
+
+    // The change block is the run of added and removed lines around the line
+    let start = index
+    while (start > 0 && hunk.lines[start - 1]?.type !== 'context') {
+      start--
+    }
+    let end = index
+    while (
+      end < hunk.lines.length - 1 &&
+      hunk.lines[end + 1]?.type !== 'context'
+    ) {
+      end++
+    }
+
+    return {
+      status: 'removed',
+      replaced: hunk.lines.slice(start, end + 1).some((l) => l.type === 'added')
+    }
+  }
+
+  return { status: 'kept', line: oldLine + offset }
+}
+
+function hunkRange(hunk: DiffHunk, side: DiffSide): LineRange | null {
+  const start = side === 'RIGHT' ? hunk.newStart : hunk.oldStart
+  const count = side === 'RIGHT' ? hunk.newLines : hunk.oldLines
+
+  return count > 0 ? { startLine: start, endLine: start + count - 1 } : null
+}
@@ -0,0 +1,331 @@
+import {
+  FINDING_CATEGORIES,
+  type FindingCategory
+} from '../config/constants.js'
+import { isBlockingScore } from '../config/scoring.js'
+import type { ReviewConfig } from '../execution/types.js'
+import type { LLMRequestMetrics } from '../opencode/retry-policy.js'
+import type { ProcessState, ReviewThread } from '../state/manager.js'
+import type { TaskResult } from '../task/types.js'
+import { INJECTION_DETECTION_AUDIT_NAME } from '../utils/prompt-injection-detector.js'
+import type { ToolCallAuditEntry } from '../utils/security.js'
+import type { TokenUsage, UsageCategory } from '../utils/usage.js'
+import { escapeTableCell } from './check-run.js'
+
+export type JobSummaryInput = {
+  config: ReviewConfig | null
+  results: TaskResult[]
+  state: ProcessState | null
+  auditLog: ToolCallAuditEntry[]
+  usage: {
+    byCategory: Array<{ category: UsageCategory } & TokenUsage>
+    total: TokenUsage
+  }
+  budgetExceeded?: string
+  skippedTasks?: number
+  /** Retry and budget metrics of direct LLM requests */
+  requestMetrics?: LLMRequestMetrics
+  /** Error that aborted the run before or during task execution */
+  error?: string
+}
+
+const THREAD_STATUSES = [
+  'PENDING',
+  'DISPUTED',
+  'ESCALATED',
+  'RESOLVED'
+] as const
+
+/**
+ * Render the outcome of a run as Markdown for the GitHub job summary
+ */
+export function buildJobSummary(input: JobSummaryInput): string {
+  const sections = [
+    '## Review My Code, OpenCode!',
+    buildStatusLine(input),
+    buildTasksSection(input.results),
+    buildPassesSection(input.state),
+    buildThreadsSection(input.state),
+    buildCategoriesSection(input.state, input.config),
+    buildFindingsSection(input.state, input.config),
+    buildInjectionSection(input.auditLog),
+    buildFailuresSection(input),
+    buildUsageSection(input)
+  ]
+
+  return `${sections.filter((s): s is string => s !== null).join('\n\n')}\n`
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`
+  }
+
+  const seconds = Math.round(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+/**
+ * Count active findings per category. Findings posted before categories
+ * existed are counted as uncategorized.
+ */
+export function countFindingsByCategory(
+  threads: ReviewThread[]
+): Record<FindingCategory | 'uncategorized', number> {
+  const counts = Object.fromEntries(
+    [...FINDING_CATEGORIES, 'uncategorized'].map((c) => [c, 0])
+  ) as Record<FindingCategory | 'uncategorized', number>
+
+  for (const thread of threads) {
+    if (thread.status !== 'RESOLVED') {
+      counts[thread.assessment.category ?? 'uncategorized']++
+    }
+  }
+
+  return counts
+}
+
+function buildStatusLine(input: JobSummaryInput): string {
+  const failed = input.results.filter((r) => !r.success).length
+
+  if (input.error || failed > 0) {
+    return `❌ **${failed > 0 ? `${failed} of ${input.results.length} task(s) failed` : 'Run failed'}**`
+  }
+
+  if (input.results.length === 0) {
+    return 'ℹ️ **No tasks to execute**'
+  }
+
+  return `✅ **${input.results.length} task(s) completed**`
+}
+
+function buildTasksSection(results: TaskResult[]): string | null {
+  if (results.length === 0) {
+    return null
+  }
+
+  const rows = results.map(
+    (r) =>
+      `| ${r.type} | ${r.success ? '✅' : '❌'} | ${r.durationMs !== undefined ? formatDuration(r.durationMs) : '-'} | ${r.issuesFound} | ${r.blockingIssues} | ${r.model ? `\`${r.model}\`` : '-'} |`
+  )
+
+  return [
+    '### Tasks',
+    '',
+    '| Task | Result | Duration | Issues | Blocking | Model |',
+    '| ---- | ------ | -------- | ------ | -------- | ----- |',
+    ...rows
+  ].join('\n')
+}
+
+function buildPassesSection(state: ProcessState | null): string | null {
+  if (!state || state.passes.length === 0) {
+    return null
+  }
+
+  const rows = [...state.passes]
+    .sort((a, b) => a.passNumber - b.passNumber)
+    .map(
+      (p) =>
+        `| ${p.passNumber} | ${p.completed ? '✅ Completed' : '⏳ Incomplete'} | ${p.hasBlockingIssues ? 'Yes' : 'No'} |`
+    )
+
+  return [
+    '### Review Passes',
+    '',
+    '| Pass | Status | Blocking issues |',
+    '| ---- | ------ | --------------- |',
+    ...rows
+  ].join('\n')
+}
+
+function buildThreadsSection(state: ProcessState | null): string | null {
+  if (!state || state.threads.length === 0) {
+    return null
+  }
+
+  const counts = THREAD_STATUSES.map(
+    (status) => state.threads.filter((t) => t.status === status).length
+  )
+
+  return [
+    '### Review Threads',
+    '',
+    `| ${THREAD_STATUSES.map((s) => s.charAt(0) + s.slice(1).toLowerCase()).join(' | ')} |`,
+    `| ${THREAD_STATUSES.map(() => '---').join(' | ')} |`,
+    `| ${counts.join(' | ')} |`
+  ].join('\n')
+}
+
+function buildCategoriesSection(
+  state: ProcessState | null,
+  config: ReviewConfig | null
+): string | null {
+  const active = state?.threads.filter((t) => t.status !== 'RESOLVED') ?? []
+  if (active.length === 0) {
+    return null
+  }
+
+  const rows = Object.entries(countFindingsByCategory(active))
+    .filter(([, count]) => count > 0)
+    .map(([category, count]) => {
+      const threads = active.filter(
+        (t) => (t.assessment.category ?? 'uncategorized') === category
+      )
+      const blocking = config
+        ? threads.filter((t) =>
+            isBlockingScore(
+              config.scoring,
+              t.file,
+              t.score,
+              t.assessment.category
+            )
+          ).length
+        : 0
+      return `| ${category} | ${count} | ${blocking} |`
+    })
+
+  return [
+    '### Open Findings by Category',
+    '',
+    '| Category | Findings | Blocking |',
+    '| -------- | -------- | -------- |',
+    ...rows
+  ].join('\n')
+}
+
+function buildFindingsSection(
+  state: ProcessState | null,
+  config: ReviewConfig | null
+): string | null {
+  const active = state?.threads.filter((t) => t.status !== 'RESOLVED') ?? []
+  if (active.length === 0) {
+    return null
+  }
+
+  const byFile = new Map<string, ReviewThread[]>()
+  for (const thread of active) {
+    byFile.set(thread.file, [...(byFile.get(thread.file) ?? []), thread])
+  }
+
+  const rows = [...byFile.entries()]
+    .map(([file, threads]) => ({
+      file,
+      scores: threads.map((t) => t.score).sort((a, b) => b - a),
+      blocking: config
+        ? threads.filter((t) =>
+            isBlockingScore(
+              config.scoring,
+              file,
+              t.score,
+              t.assessment.category
+            )
+          ).length
+        : 0
+    }))
+    .sort((a, b) => (b.scores[0] ?? 0) - (a.scores[0] ?? 0))
+    .map(
+      (f) =>
+        `| \`${escapeTableCell(f.file)}\` | ${f.scores.length} | ${f.blocking} | ${f.scores.join(', ')} |`
+    )
+
+  return [
+    '### Open Findings by File',
+    '',
+    '| File | Findings | Blocking | Scores |',
+    '| ---- | -------- | -------- | ------ |',
+    ...rows
+  ].join('\n')
+}
+
+function buildInjectionSection(auditLog: ToolCallAuditEntry[]): string | null {
+  const events = auditLog.filter(
+    (e) => e.toolName === INJECTION_DETECTION_AUDIT_NAME
+  )
+  if (events.length === 0) {
+    return null
+  }
+
+  const rows = events.map((e) => {
+    const threats = Array.isArray(e.parameters.threats)
+      ? e.parameters.threats.join(', ')
+      : ''
+    return `| ${e.timestamp} | ${e.result === 'blocked' ? '🚫 Blocked' : '✅ Allowed'} | ${escapeTableCell(threats)} | ${escapeTableCell(e.reason ?? '')} |`
+  })
+
+  return [
+    '### Prompt Injection Detection',
+    '',
+    '| Time | Result | Threats | Reason |',
+    '| ---- | ------ | ------- | ------ |',
+    ...rows
+  ].join('\n')
+}
+
+function buildFailuresSection(input: JobSummaryInput): string | null {
+  const failures = input.results
+    .filter((r) => !r.success)
+    .map((r) => `- **${r.type}**: ${r.error ?? 'Unknown error'}`)
+
+  if (input.error) {
+    failures.push(`- **run**: ${input.error}`)
+  }
+
+  if (failures.length === 0) {
+    return null
+  }
+
+  return ['### Failures', '', ...failures].join('\n')
+}
+
+function buildUsageSection(input: JobSummaryInput): string | null {
+  const { usage, budgetExceeded, requestMetrics } = input
+  if (
+    usage.total.requests === 0 &&
+    !budgetExceeded &&
+    !requestMetrics?.requests &&
+    !requestMetrics?.budgetRejected
+  ) {
+    return null
+  }
+
+  const rows = [
+    ...usage.byCategory,
+    { category: '**Total**', ...usage.total }
+  ].map(
+    (u) =>
+      `| ${u.category} | ${u.requests} | ${u.promptTokens} | ${u.completionTokens} | $${u.costUsd.toFixed(4)} |`
+  )
+
+  return [
+    '### LLM Usage',
+    '',
+    '| Task | Requests | Prompt tokens | Completion tokens | Cost (USD) |',
+    '| ---- | -------- | ------------- | ----------------- | ---------- |',
+    ...rows,
+    ...(budgetExceeded
+      ? [
+          '',
+          `**Budget exhausted:** ${budgetExceeded}. ${input.skippedTasks ?? 0} remaining task(s) were skipped.`
+        ]
+      : []),
+    ...(requestMetrics ? buildRequestMetricLines(requestMetrics) : [])
+  ].join('\n')
+}
+
+function buildRequestMetricLines(metrics: LLMRequestMetrics): string[] {
+  if (metrics.requests === 0 && metrics.budgetRejected === 0) {
+    return []
+  }
+
+  return [
+    '',
+    `**Direct LLM requests:** ${metrics.requests} sent, ${metrics.retries} retried (${metrics.rateLimited} rate limited), ${metrics.failed} failed, ${formatDuration(metrics.waitMs)} waiting between attempts`,
+    ...(metrics.budgetRejected > 0
+      ? [
+          `**Request budget exhausted:** ${metrics.budgetRejected} request(s) were refused.`
+        ]
+      : [])
+  ]
+}
@@ -0,0 +1,125 @@
+import type { Octokit, RestEndpointMethodTypes } from '@octokit/rest'
+
+import { logger } from '../utils/logger.js'
+
+export type ReviewComment =
+  RestEndpointMethodTypes['pulls']['listReviewComments']['response']['data'][0]
+
+/**
+ * Paginated, cached index of all review comments on a pull request.
+ *
+ * State reconstruction and task detection both need every review comment.
+ * Long-lived PRs easily exceed a single page of 100 comments, so the full list
+ * is fetched once per run and shared. Writes through GitHubAPI invalidate the
+ * cache so later reads see the bot's own replies.
+ */
+export class ReviewCommentIndex {
+  private comments: Promise<ReviewComment[]> | null = null
+  private repliesByThread: Map<number, ReviewComment[]> | null = null
+
+  constructor(
+    private octokit: Octokit,
+    private owner: string,
+    private repo: string,
+    private prNumber: number
+  ) {}
+
+  /**
+   * All review comments of the pull request, oldest first
+   */
+  async getAll(): Promise<ReviewComment[]> {
+    if (!this.comments) {
+      const pending = this.fetchAll()
+      this.comments = pending
+      // Allow a retry after a failed fetch
+      pending.catch(() => {
+        if (this.comments === pending) {
+          this.invalidate()
+        }
+      })
+    }
+    return this.comments
+  }
+
+  /**
+   * Top-level comments, each starting a thread
+   */
+  async getThreadRoots(): Promise<ReviewComment[]> {
+    return (await this.getAll()).filter((c) => !c.in_reply_to_id)
+  }
+
+  /**
+   * Replies to a thread, oldest first
+   */
+  async getReplies(threadId: string | number): Promise<ReviewComment[]> {
+    if (!this.repliesByThread) {
+      const comments = await this.getAll()
+      const repliesByThread = new Map<number, ReviewComment[]>()
+
+      for (const comment of comments) {
+        if (comment.in_reply_to_id) {
+          const replies = repliesByThread.get(comment.in_reply_to_id) ?? []
+          replies.push(comment)
+          repliesByThread.set(comment.in_reply_to_id, replies)
+        }
+      }
+
+      this.repliesByThread = repliesByThread
+    }
+
+    return this.repliesByThread.get(Number(threadId)) ?? []
+  }
+
+  /**
+   * The root comment of a thread followed by its replies
+   */
+  async getThread(threadId: string | number): Promise<ReviewComment[]> {
+    const root = (await this.getAll()).find((c) => c.id === Number(threadId))
+    const replies = await this.getReplies(threadId)
+
+    return root ? [root, ...replies] : replies
+  }
+
+  /**
+   * Comments of several threads from the same fetch, keyed by thread ID
+   */
+  async getThreads(
+    threadIds: Array<string | number>
+  ): Promise<Map<string, ReviewComment[]>> {
+    const roots = new Map(
+      (await this.getThreadRoots()).map((c) => [String(c.id), c])
+    )
+    const threads = new Map<string, ReviewComment[]>()
+
+    for (const threadId of threadIds) {
+      const root = roots.get(String(threadId))
+      const replies = await this.getReplies(threadId)
+      threads.set(String(threadId), root ? [root, ...replies] : replies)
+    }
+
+    return threads
+  }
+
+  invalidate(): void {
+    this.comments = null
+    this.repliesByThread = null
+  }
+
+  private async fetchAll(): Promise<ReviewComment[]> {
+    const comments = await this.octokit.paginate(
+      this.octokit.pulls.listReviewComments,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: this.prNumber,
+        per_page: 100
+      }
+    )
+
+    logger.debug(
+      `Fetched ${comments.length} review comments for PR #${this.prNumber}`
+    )
+
+    return comments
+  }
+}
@@ -0,0 +1,94 @@
+import type { Octokit } from '@octokit/rest'
+
+/**
+ * GitHub's own view of a review thread
+ */
+export type ReviewThreadInfo = {
+  /** GraphQL node ID of the thread */
+  id: string
+  /** Database ID of the first comment, which identifies the thread in state */
+  rootCommentId: number | null
+  isResolved: boolean
+  /** The code the thread was anchored to has changed since */
+  isOutdated: boolean
+  resolvedBy: string | null
+}
+
+type ReviewThreadsPage = {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null }
+        nodes: Array<{
+          id: string
+          isResolved: boolean
+          isOutdated: boolean
+          resolvedBy: { login: string } | null
+          comments: { nodes: Array<{ databaseId: number | null }> }
+        }>
+      }
+    }
+  }
+}
+
+const REVIEW_THREADS_QUERY = `query GetReviewThreads($owner: String!, $repo: String!, $prNumber: Int!, $cursor: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $prNumber) {
+      reviewThreads(first: 100, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          isResolved
+          isOutdated
+          resolvedBy {
+            login
+          }
+          comments(first: 1) {
+            nodes {
+              databaseId
+            }
+          }
+        }
+      }
+    }
+  }
+}`
+
+/**
+ * Fetch all review threads of a pull request via GraphQL. The REST API does
+ * not expose threads, nor their resolved and outdated flags.
+ */
+export async function fetchReviewThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<ReviewThreadInfo[]> {
+  const threads: ReviewThreadInfo[] = []
+  let cursor: string | null = null
+
+  do {
+    const result: ReviewThreadsPage = await octokit.graphql<ReviewThreadsPage>(
+      REVIEW_THREADS_QUERY,
+      { owner, repo, prNumber, cursor }
+    )
+    const page = result.repository.pullRequest.reviewThreads
+
+    for (const node of page.nodes) {
+      threads.push({
+        id: node.id,
+        rootCommentId: node.comments.nodes[0]?.databaseId ?? null,
+        isResolved: node.isResolved,
+        isOutdated: node.isOutdated,
+        resolvedBy: node.resolvedBy?.login ?? null
+      })
+    }
+
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null
+  } while (cursor)
+
+  return threads
+}
@@ -0,0 +1,190 @@
+/**
+ * Rate limit handling for GitHub API requests.
+ *
+ * The Octokit client of the run uses @octokit/plugin-throttling, which spaces
+ * out writes and waits out primary and secondary rate limits, and
+ * @octokit/plugin-retry, which retries server errors. Writes that are not
+ * idempotent are never retried on server errors: GitHub may have applied the
+ * write before failing, and a retry would post the review or comment twice.
+ * Requests are counted in a module-level ledger, like LLM usage, and logged at
+ * the end of the run.
+ */
+
+import { retry } from '@octokit/plugin-retry'
+import { throttling } from '@octokit/plugin-throttling'
+import { Octokit } from '@octokit/rest'
+
+import { logger } from '../utils/logger.js'
+
+export type GitHubRequestMetrics = {
+  /** HTTP requests sent, retries included */
+  requests: number
+  retries: number
+  /** Responses hitting the primary (hourly) rate limit */
+  rateLimited: number
+  /** Responses hitting the secondary rate limit */
+  secondaryRateLimited: number
+  /** Requests that failed after their last attempt */
+  failed: number
+  /** Time spent waiting for rate limits to reset */
+  waitMs: number
+}
+
+export type GitHubClientOptions = {
+  /** Milliseconds per second of a Retry-After, lowered in tests */
+  retryAfterBaseValue?: number
+  fetch?: typeof fetch
+}
+
+/**
+ * Rate limit retries per request
+ */
+const MAX_RATE_LIMIT_RETRIES = 3
+
+/**
+ * Longer waits fail the request instead, so a run does not sit out an hourly
+ * quota reset
+ */
+const MAX_RATE_LIMIT_WAIT_SECONDS = 120
+
+/**
+ * Rate limits are left to the throttling plugin, client errors fail at once
+ */
+const DO_NOT_RETRY_STATUSES = [400, 401, 403, 404, 410, 422, 429, 451]
+
+const GitHubOctokit = Octokit.plugin(countRequests, throttling, retry)
+
+type RequestOptions = {
+  method: string
+  url: string
+  query?: unknown
+}
+
+type LimitKind = 'primary' | 'secondary'
+
+let metrics: GitHubRequestMetrics = emptyMetrics()
+
+function emptyMetrics(): GitHubRequestMetrics {
+  return {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+    secondaryRateLimited: 0,
+    failed: 0,
+    waitMs: 0
+  }
+}
+
+export function getGitHubRequestMetrics(): GitHubRequestMetrics {
+  return { ...metrics }
+}
+
+export function clearGitHubRequestMetrics(): void {
+  metrics = emptyMetrics()
+}
+
+/**
+ * Octokit client for the run with throttling and retries installed
+ */
+export function createOctokit(
+  token: string,
+  options: GitHubClientOptions = {}
+): Octokit {
+  // The plugins merge their options over their defaults, so unset values
+  // must be left out rather than passed as undefined
+  const timing =
+    options.retryAfterBaseValue !== undefined
+      ? { retryAfterBaseValue: options.retryAfterBaseValue }
+      : {}
+
+  const octokit = new GitHubOctokit({
+    auth: token,
+    request: options.fetch ? { fetch: options.fetch } : undefined,
+    throttle: {
+      ...timing,
+      onRateLimit: (retryAfter, request, _octokit, retryCount) =>
+        shouldRetryLimit('primary', retryAfter, request, retryCount),
+      onSecondaryRateLimit: (retryAfter, request, _octokit, retryCount) =>
+        shouldRetryLimit('secondary', retryAfter, request, retryCount)
+    },
+    retry: {
+      doNotRetry: DO_NOT_RETRY_STATUSES,
+      ...timing
+    }
+  })
+
+  // Registered after the plugins, so these run once per call, outside retries
+  octokit.hook.before('request', (request) => {
+    if (!isIdempotent(request)) {
+      // A copy, since the request options may be shared with other calls
+      request.request = { ...request.request, retries: 0 }
+    }
+  })
+  octokit.hook.error('request', (error) => {
+    metrics.failed++
+    throw error
+  })
+
+  return octokit
+}
+
+/**
+ * Count every attempt. Registered as the first plugin, so its hook runs
+ * inside the throttling and retry hooks.
+ */
+function countRequests(octokit: Pick<Octokit, 'hook'>): void {
+  // Both plugins retry with the options object of the original call
+  const attempted = new WeakSet<object>()
+
+  octokit.hook.wrap('request', (request, options) => {
+    if (attempted.has(options)) {
+      metrics.retries++
+    }
+    attempted.add(options)
+    metrics.requests++
+    return request(options)
+  })
+}
+
+function shouldRetryLimit(
+  kind: LimitKind,
+  retryAfter: number,
+  request: RequestOptions,
+  retryCount: number
+): boolean {
+  if (kind === 'primary') {
+    metrics.rateLimited++
+  } else {
+    metrics.secondaryRateLimited++
+  }
+
+  const description = `${request.method} ${request.url}`
+
+  if (
+    retryCount >= MAX_RATE_LIMIT_RETRIES ||
+    retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS
+  ) {
+    logger.warning(
+      `GitHub ${description} hit the ${kind} rate limit, giving up (retry after ${retryAfter}s)`
+    )
+    return false
+  }
+
+  metrics.waitMs += retryAfter * 1000
+  logger.warning(
+    `GitHub ${description} hit the ${kind} rate limit, retrying in ${retryAfter}s (retry ${retryCount + 1}/${MAX_RATE_LIMIT_RETRIES})`
+  )
+  return true
+}
+
+/**
+ * Whether repeating the request cannot apply a change twice. GraphQL queries
+ * are POSTed but only mutations write.
+ */
+function isIdempotent(request: RequestOptions): boolean {
+  if (request.url === '/graphql') {
+    return !/^\s*mutation\b/.test(String(request.query ?? ''))
+  }
+
+  return request.method !== 'POST' && request.method !== 'PATCH'
+}
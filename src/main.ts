@@ -1,28 +1,62 @@
 import * as core from '@actions/core'
 
-import { OPENROUTER_API_URL } from './config/constants.js'
 import { parseInputs, validateConfig } from './config/inputs.js'
 import { GitHubAPI } from './github/api.js'
+import { CHECK_RUN_NAME } from './github/check-run.js'
+import {
+  buildJobSummary,
+  countFindingsByCategory,
+  formatDuration
+} from './github/job-summary.js'
+import { getGitHubRequestMetrics } from './github/throttling.js'
 import { OpenCodeClientImpl } from './opencode/client.js'
 import { LLMClientImpl } from './opencode/llm-client.js'
+import { runProviderPreflight } from './opencode/preflight.js'
+import { getProviderConnection } from './opencode/provider.js'
+import { getRequestMetrics, setRequestBudget } from './opencode/retry-policy.js'
 import { OpenCodeServer } from './opencode/server.js'
 import { ReviewExecutor } from './execution/orchestrator.js'
+import type { ReportPreflight, RunReport } from './report/schema.js'
+import {
+  type RunReportInput,
+  buildRunReport,
+  getDefaultReportPath,
+  writeRunReport
+} from './report/writer.js'
 import { StateManager } from './state/manager.js'
+import type { ReviewConfig } from './execution/types.js'
 import { TaskOrchestrator } from './task/orchestrator.js'
+import type { ExecutionResult } from './task/types.js'
 import { TRPCServer } from './trpc/server.js'
+import { PreflightError } from './utils/errors.js'
 import { logger } from './utils/logger.js'
+import { getAuditLog } from './utils/security.js'
+import {
+  getTotalUsage,
+  getUsageByCategory,
+  setUsageBudget
+} from './utils/usage.js'
 
 export async function run(): Promise<void> {
-  let openCodeServer: OpenCodeServer | null = null
-  let trpcServer: TRPCServer | null = null
-  let reviewExecutor: ReviewExecutor | null = null
+  // Assigned by prepareExecution, typed with `as` so the null initializers
+  // are not narrowed away by control flow analysis
+  let openCodeServer = null as OpenCodeServer | null
+  let trpcServer = null as TRPCServer | null
+  let reviewExecutor = null as ReviewExecutor | null
   let exitCode = 0
+  let config: ReviewConfig | null = null
+  let executionResult: ExecutionResult | null = null
+  let runError: string | undefined
+  let reviewStatus: RunReport['reviewStatus'] = 'failed'
+  let preflight: ReportPreflight = { status: 'skipped' }
 
   try {
     logger.info('Starting Review My Code, OpenCode!...')
 
-    const config = await parseInputs()
+    config = await parseInputs()
     validateConfig(config)
+    setUsageBudget(config.budget)
+    setRequestBudget(config.budget.maxLlmRequests)
 
     logger.info(
       `Configuration loaded: PR #${config.github.prNumber} in ${config.github.owner}/${config.github.repo}`
@@ -31,28 +65,15 @@ export async function run(): Promise<void> {
       `Model: ${config.opencode.model}, Threshold: ${config.scoring.problemThreshold}`
     )
 
-    // Test direct OpenRouter API call to verify model/API key work
-    logger.info('Testing OpenRouter API connection...')
-    await testOpenRouterConnection(
-      config.opencode.apiKey,
-      config.opencode.model
-    )
-
-    openCodeServer = new OpenCodeServer(config)
-    await openCodeServer.start()
-
+    const reviewConfig = config
     const github = new GitHubAPI(config)
-    const opencode = new OpenCodeClientImpl(
-      openCodeServer.getUrl(),
-      config.opencode.debugLogging,
-      config.review.timeoutMs
-    )
     // LLM client for classification and sentiment analysis tasks
     // Uses injection_verification_model which is faster and doesn't have
     // reasoning token issues that can cause empty responses with reasoning models
     const classificationLlmClient = new LLMClientImpl({
-      apiKey: config.opencode.apiKey,
-      model: config.security.injectionVerificationModel
+      ...getProviderConnection(config),
+      model: config.security.injectionVerificationModel,
+      fallbackModels: config.security.injectionVerificationFallbackModels
     })
 
     const workspaceRoot = process.env.GITHUB_WORKSPACE || process.cwd()
@@ -60,35 +81,64 @@ export async function run(): Promise<void> {
     const stateManager = new StateManager(
       config,
       classificationLlmClient,
-      github.getOctokit()
+      github.getOctokit(),
+      github.getReviewCommentIndex()
     )
 
-    reviewExecutor = new ReviewExecutor(
-      opencode,
-      stateManager,
-      github,
-      config,
-      workspaceRoot
-    )
+    // Only runs with pending tasks pay for the preflight and the OpenCode server
+    const prepareExecution = async (): Promise<ReviewExecutor> => {
+      preflight = await runPreflight(reviewConfig)
+      if (preflight.status === 'failed') {
+        throw new Error(preflight.error)
+      }
+
+      const server = new OpenCodeServer(reviewConfig)
+      openCodeServer = server
+      await server.start()
+
+      const opencode = new OpenCodeClientImpl(
+        server.getUrl(),
+        reviewConfig.opencode.debugLogging,
+        reviewConfig.review.timeoutMs
+      )
+
+      const executor = new ReviewExecutor(
+        opencode,
+        stateManager,
+        github,
+        reviewConfig,
+        workspaceRoot
+      )
+      reviewExecutor = executor
+
+      const trpc = new TRPCServer(executor, github, classificationLlmClient)
+      trpcServer = trpc
+      await trpc.start()
+
+      return executor
+    }
 
     const taskOrchestrator = new TaskOrchestrator(
       config,
       github,
-      reviewExecutor,
       stateManager,
-      classificationLlmClient
+      classificationLlmClient,
+      prepareExecution
     )
 
-    trpcServer = new TRPCServer(reviewExecutor, github, classificationLlmClient)
-    await trpcServer.start()
-
     logger.info('Executing multi-task workflow...')
-    const executionResult = await taskOrchestrator.execute()
+    executionResult = await taskOrchestrator.execute()
 
     logger.info(
       `Execution complete: ${executionResult.totalTasks} task(s) executed`
     )
 
+    if (executionResult.budgetExceeded) {
+      core.warning(
+        `Stopped early because the usage budget ran out (${executionResult.budgetExceeded}). ${executionResult.skippedTasks ?? 0} task(s) were skipped.`
+      )
+    }
+
     let totalIssuesFound = 0
     let totalBlockingIssues = 0
     let hasFailedTasks = false
@@ -102,20 +152,42 @@ export async function run(): Promise<void> {
     }
 
     if (hasFailedTasks) {
-      core.setOutput('review_status', 'failed')
+      reviewStatus = 'failed'
+      core.setOutput('review_status', reviewStatus)
       core.setOutput('issues_found', String(totalIssuesFound))
       core.setOutput('blocking_issues', String(totalBlockingIssues))
       core.setFailed('One or more tasks failed to execute')
       exitCode = 1
+    } else if (executionResult.skippedAutoReview) {
+      // Reporting success here would let the PR merge unreviewed
+      reviewStatus = 'failed'
+      core.setOutput('review_status', reviewStatus)
+      core.setOutput('issues_found', String(totalIssuesFound))
+      core.setOutput('blocking_issues', String(totalBlockingIssues))
+      core.setFailed(
+        `The review was skipped because the usage budget ran out (${executionResult.budgetExceeded}), so the merge gate was not evaluated`
+      )
+      exitCode = 1
     } else if (executionResult.reviewCompleted) {
-      core.setOutput('review_status', 'completed')
+      reviewStatus = 'completed'
+      core.setOutput('review_status', reviewStatus)
       core.setOutput('issues_found', String(totalIssuesFound))
       core.setOutput('blocking_issues', String(totalBlockingIssues))
 
       if (executionResult.hasBlockingIssues) {
         // Only fail the action (set exit code 1) for AUTO reviews
         // Manual reviews are informational only - they don't block merges
-        if (executionResult.hadAutoReview) {
+        if (
+          executionResult.hadAutoReview &&
+          executionResult.autoReviewCheckRunCompleted
+        ) {
+          // The check run carries the merge gate, so the job itself succeeds.
+          // Without a completed check run (e.g. no checks: write permission)
+          // the job has to fail instead.
+          core.warning(
+            `Review found ${totalIssuesFound} issue(s), including ${totalBlockingIssues} blocking issue(s). See the "${CHECK_RUN_NAME}" check for details.`
+          )
+        } else if (executionResult.hadAutoReview) {
           const message = `Review found ${totalIssuesFound} issue(s), including ${totalBlockingIssues} blocking issue(s). Please address the review comments before merging.`
           core.setFailed(message)
           exitCode = 1
@@ -129,13 +201,15 @@ export async function run(): Promise<void> {
         core.warning(message)
       }
     } else {
-      core.setOutput('review_status', 'tasks_executed')
+      reviewStatus = 'tasks_executed'
+      core.setOutput('review_status', reviewStatus)
       core.setOutput('issues_found', String(totalIssuesFound))
       core.setOutput('blocking_issues', String(totalBlockingIssues))
     }
 
     logger.info('Review My Code, OpenCode! completed')
   } catch (error) {
+    runError = error instanceof Error ? error.message : String(error)
     if (error instanceof Error) {
       logger.error(error)
       core.setFailed(error.message)
@@ -146,11 +220,98 @@ export async function run(): Promise<void> {
     }
     exitCode = 1
   } finally {
+    await reportRun({
+      config,
+      reviewStatus,
+      execution: executionResult,
+      preflight,
+      state: reviewExecutor?.getState() ?? null,
+      passTimings: reviewExecutor?.getPassTimings() ?? [],
+      error: runError
+    })
     await cleanup(reviewExecutor, trpcServer, openCodeServer)
     process.exit(exitCode)
   }
 }
 
+/**
+ * Publish token and cost usage as outputs, write the JSON report and the job
+ * summary. Report and summary failures (e.g. when GITHUB_STEP_SUMMARY is not
+ * set) never fail the run.
+ */
+async function reportRun(report: Omit<RunReportInput, 'usage'>): Promise<void> {
+  const total = getTotalUsage()
+  const usage = { byCategory: getUsageByCategory(), total }
+  const budgetExceeded = report.execution?.budgetExceeded
+  const requestMetrics = getRequestMetrics()
+  const githubMetrics = getGitHubRequestMetrics()
+
+  core.setOutput('tokens_used', String(total.totalTokens))
+  core.setOutput('cost_usd', total.costUsd.toFixed(4))
+  core.setOutput('budget_exceeded', budgetExceeded ? 'true' : 'false')
+  core.setOutput(
+    'models_used',
+    JSON.stringify(
+      (report.execution?.results ?? []).map((r) => ({
+        task: r.type,
+        model: r.model ?? null
+      }))
+    )
+  )
+  core.setOutput('preflight_status', report.preflight.status)
+  core.setOutput('preflight_error', report.preflight.errorCategory ?? '')
+  core.setOutput(
+    'issues_by_category',
+    JSON.stringify(countFindingsByCategory(report.state?.threads ?? []))
+  )
+
+  logger.info(
+    `Usage: ${total.totalTokens} tokens, $${total.costUsd.toFixed(4)} across ${total.requests} LLM requests`
+  )
+  if (requestMetrics.requests > 0 || requestMetrics.budgetRejected > 0) {
+    logger.info(
+      `Direct LLM requests: ${requestMetrics.requests} sent, ${requestMetrics.retries} retried, ${requestMetrics.rateLimited} rate limited, ${requestMetrics.failed} failed, ${requestMetrics.budgetRejected} refused by the request budget`
+    )
+  }
+
+  logger.info(
+    `GitHub API: ${githubMetrics.requests} requests, ${githubMetrics.retries} retried, ${githubMetrics.rateLimited} rate limited, ${githubMetrics.secondaryRateLimited} secondary rate limited, ${githubMetrics.failed} failed, ${formatDuration(githubMetrics.waitMs)} waiting`
+  )
+
+  const reportPath = getDefaultReportPath()
+  try {
+    await writeRunReport(reportPath, buildRunReport({ ...report, usage }))
+    core.setOutput('report_path', reportPath)
+    logger.info(`Run report written to ${reportPath}`)
+  } catch (error) {
+    logger.warning(
+      `Failed to write run report: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  try {
+    await core.summary
+      .addRaw(
+        buildJobSummary({
+          config: report.config,
+          results: report.execution?.results ?? [],
+          state: report.state,
+          auditLog: getAuditLog(),
+          usage,
+          budgetExceeded,
+          skippedTasks: report.execution?.skippedTasks,
+          requestMetrics,
+          error: report.error
+        })
+      )
+      .write()
+  } catch (error) {
+    logger.warning(
+      `Failed to write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
 async function cleanup(
   executor: ReviewExecutor | null,
   trpcServer: TRPCServer | null,
@@ -203,74 +364,33 @@ async function cleanup(
   logger.debug('Cleanup: All cleanup complete, calling process.exit()')
 }
 
-async function testOpenRouterConnection(
-  apiKey: string,
-  model: string
-): Promise<void> {
-  const controller = new AbortController()
-  const timeoutMs = 10000
-  const timeoutId = setTimeout(() => {
-    controller.abort()
-  }, timeoutMs)
-
-  try {
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://github.com/tomsjansons/rmc-oc',
-        'X-Title': 'Review My Code - API Test'
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: 'user',
-            content: 'Say "API test successful" and nothing else.'
-          }
-        ],
-        max_tokens: 20
-      }),
-      signal: controller.signal
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      logger.error(
-        `OpenRouter API test failed: ${response.status} ${response.statusText}`
-      )
-      logger.error(`Response: ${errorText}`)
-      throw new Error(
-        `OpenRouter API test failed: ${response.status} - ${errorText}`
-      )
-    }
-
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>
-      error?: { message?: string }
-    }
+/**
+ * Check the provider key and model with free metadata requests. Failures are
+ * returned with their category so they can be published as outputs.
+ */
+async function runPreflight(config: ReviewConfig): Promise<ReportPreflight> {
+  if (!config.opencode.preflightCheck) {
+    logger.info('Provider preflight check disabled')
+    return { status: 'skipped' }
+  }
 
-    if (data.error) {
-      logger.error(`OpenRouter API error: ${data.error.message}`)
-      throw new Error(`OpenRouter API error: ${data.error.message}`)
-    }
+  logger.info(`Checking ${config.opencode.provider} API key and model...`)
 
-    const content = data.choices?.[0]?.message?.content || '(no content)'
-    logger.info(
-      `OpenRouter API test successful. Model ${model} responded: "${content}"`
+  try {
+    await runProviderPreflight(
+      getProviderConnection(config),
+      config.opencode.model
     )
+    return { status: 'passed' }
   } catch (error) {
-    if (error instanceof Error && error.message.includes('OpenRouter')) {
-      throw error
+    const message = error instanceof Error ? error.message : String(error)
+    logger.error(message)
+
+    return {
+      status: 'failed',
+      errorCategory:
+        error instanceof PreflightError ? error.category : 'unknown',
+      error: message
     }
-    logger.error(
-      `OpenRouter API test failed: ${error instanceof Error ? error.message : String(error)}`
-    )
-    throw new Error(
-      `Failed to connect to OpenRouter: ${error instanceof Error ? error.message : String(error)}`
-    )
-  } finally {
-    clearTimeout(timeoutId)
   }
 }
@@ -2,8 +2,9 @@ import { createOpencodeClient } from '@opencode-ai/sdk'
 
 import { OpenCodeError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import type { OpenCodeModelRef } from './provider.js'
 import { SessionActivityTracker } from './session-activity-tracker.js'
-import type { Session } from './types.js'
+import type { Session, SessionUsage } from './types.js'
 
 export type OpenCodeClient = {
   createSession(title: string): Promise<Session>
@@ -11,13 +12,17 @@ export type OpenCodeClient = {
   sendSystemPrompt(sessionId: string, systemPrompt: string): Promise<void>
   sendPrompt(sessionId: string, prompt: string): Promise<void>
   sendPromptAndGetResponse(sessionId: string, prompt: string): Promise<string>
+  getSessionUsage(sessionId: string): Promise<SessionUsage>
   getCurrentSessionId(): string | null
+  /** Model for subsequent prompts, null for the configured default */
+  setModel(model: OpenCodeModelRef | null): void
 }
 
 type OpenCodeSDKClient = ReturnType<typeof createOpencodeClient>
 
 export class OpenCodeClientImpl implements OpenCodeClient {
   private currentSessionId: string | null = null
+  private model: OpenCodeModelRef | null = null
   private client: OpenCodeSDKClient
   private debugLogging: boolean
   private timeoutMs: number
@@ -101,6 +106,7 @@ export class OpenCodeClientImpl implements OpenCodeClient {
         path: { id: sessionId },
         body: {
           noReply: true,
+          model: this.model ?? undefined,
           parts: [
             {
               type: 'text',
@@ -134,6 +140,7 @@ export class OpenCodeClientImpl implements OpenCodeClient {
       await this.client.session.promptAsync({
         path: { id: sessionId },
         body: {
+          model: this.model ?? undefined,
           parts: [
             {
               type: 'text',
@@ -669,6 +676,7 @@ export class OpenCodeClientImpl implements OpenCodeClient {
       const response = await this.client.session.prompt({
         path: { id: sessionId },
         body: {
+          model: this.model ?? undefined,
           parts: [
             {
               type: 'text',
@@ -699,6 +707,47 @@ export class OpenCodeClientImpl implements OpenCodeClient {
     }
   }
 
+  /**
+   * Total tokens and cost of all assistant messages in a session so far
+   */
+  async getSessionUsage(sessionId: string): Promise<SessionUsage> {
+    try {
+      const response = await this.client.session.messages({
+        path: { id: sessionId }
+      })
+
+      const usage: SessionUsage = {
+        messages: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0
+      }
+
+      for (const message of response.data ?? []) {
+        if (message.info.role !== 'assistant') {
+          continue
+        }
+
+        const { tokens, cost } = message.info
+        usage.messages++
+        usage.inputTokens +=
+          tokens.input + tokens.cache.read + tokens.cache.write
+        usage.outputTokens += tokens.output + tokens.reasoning
+        usage.costUsd += cost
+      }
+
+      return usage
+    } catch (error) {
+      throw new OpenCodeError(
+        `Failed to fetch session usage: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  setModel(model: OpenCodeModelRef | null): void {
+    this.model = model
+  }
+
   getCurrentSessionId(): string | null {
     return this.currentSessionId
   }
@@ -1,108 +1,173 @@
-import { OPENROUTER_API_URL } from '../config/constants.js'
+import { LLMRequestError, RequestBudgetError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import { type UsageCategory, recordUsage } from '../utils/usage.js'
+import {
+  type ChatAdapter,
+  type ProviderConnection,
+  createChatAdapter
+} from './provider.js'
+import {
+  type RetryPolicy,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry
+} from './retry-policy.js'
 
 type CompletionOptions = {
   maxTokens?: number | null
   temperature?: number
+  /** OpenRouter-specific request fields, ignored by other providers */
   extraBody?: Record<string, unknown>
   title?: string
+  /** Ledger category, defaults to the client's category */
+  usageCategory?: UsageCategory
 }
 
 export type LLMClient = {
   complete(prompt: string, options?: CompletionOptions): Promise<string | null>
 }
 
-type LLMClientConfig = {
-  apiKey: string
+type LLMClientConfig = ProviderConnection & {
   model: string
+  /** Models tried in order on rate limits, server errors or empty content */
+  fallbackModels?: string[]
+  /** Defaults to DEFAULT_RETRY_POLICY */
+  retryPolicy?: RetryPolicy
+  /** Ledger category for completions, defaults to 'classification' */
+  usageCategory?: UsageCategory
 }
 
 const DEFAULT_MAX_TOKENS = 512
 const DEFAULT_TEMPERATURE = 0.1
 
 export class LLMClientImpl implements LLMClient {
-  constructor(private config: LLMClientConfig) {}
+  private adapter: ChatAdapter
 
+  constructor(private config: LLMClientConfig) {
+    this.adapter = createChatAdapter(config)
+  }
+
+  /**
+   * Complete with the configured model. Each model's request is retried under
+   * the shared retry policy; once that gives up, or on an empty response, the
+   * next fallback model is tried. Other errors, such as an invalid key, fail
+   * immediately since another model would fail the same way.
+   */
   async complete(
     prompt: string,
     options?: CompletionOptions
   ): Promise<string | null> {
-    const requestBody: Record<string, unknown> = {
-      model: this.config.model,
-      messages: [
-        {
-          role: 'user' as const,
-          content: prompt
-        }
-      ],
-      temperature: options?.temperature ?? DEFAULT_TEMPERATURE
-    }
+    const models = [this.config.model, ...(this.config.fallbackModels ?? [])]
 
-    if (options?.maxTokens !== null) {
-      requestBody.max_tokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS
-    }
+    for (const [index, model] of models.entries()) {
+      const nextModel = models[index + 1]
 
-    if (options?.extraBody) {
-      Object.assign(requestBody, options.extraBody)
-    }
-
-    try {
-      const response = await fetch(OPENROUTER_API_URL, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          'HTTP-Referer': 'https://github.com/tomsjansons/rmc-oc',
-          'X-Title': options?.title ?? 'Review My Code, OpenCode!',
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        throw new Error(
-          `OpenRouter API request failed: ${response.status} ${response.statusText} - ${errorText}`
+      try {
+        const content = await withRetry(
+          () => this.completeWithModel(model, prompt, options),
+          {
+            description: `${this.adapter.name} request (${model})`,
+            policy: this.config.retryPolicy
+          }
         )
-      }
 
-      const data = (await response.json()) as {
-        choices?: Array<{
-          message?: { content?: string; role?: string }
-          finish_reason?: string | null
-          error?: { code: number; message: string }
-        }>
-        usage?: {
-          prompt_tokens: number
-          completion_tokens: number
-          total_tokens: number
+        if (content || nextModel === undefined) {
+          return content
         }
-      }
 
-      const choice = data.choices?.[0]
-      if (choice?.error) {
-        throw new Error(
-          `OpenRouter API error: ${choice.error.code} - ${choice.error.message}`
+        logger.warning(
+          `${model} returned an empty response, falling back to ${nextModel}`
         )
-      }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
 
-      const content = choice?.message?.content?.trim() ?? null
+        if (nextModel === undefined || !isFallbackError(error)) {
+          logger.warning(`LLM completion failed: ${message}`)
+          throw error
+        }
 
-      // Log if we got an empty or null response for debugging
-      if (!content) {
         logger.warning(
-          `LLM returned empty/null response. ` +
-            `Finish reason: ${choice?.finish_reason ?? 'unknown'}, ` +
-            `Usage: ${JSON.stringify(data.usage ?? {})}, ` +
-            `Model: ${this.config.model}`
+          `${model} failed (${message}), falling back to ${nextModel}`
         )
       }
+    }
+
+    return null
+  }
+
+  private async completeWithModel(
+    model: string,
+    prompt: string,
+    options?: CompletionOptions
+  ): Promise<string | null> {
+    const request = this.adapter.buildRequest({
+      model,
+      prompt,
+      maxTokens:
+        options?.maxTokens === null
+          ? null
+          : (options?.maxTokens ?? DEFAULT_MAX_TOKENS),
+      temperature: options?.temperature ?? DEFAULT_TEMPERATURE,
+      title: options?.title ?? 'Review My Code, OpenCode!',
+      extraBody: options?.extraBody
+    })
+
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body)
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new LLMRequestError(
+        `${this.adapter.name} API request failed: ${response.status} ${response.statusText} - ${errorText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      )
+    }
+
+    const result = this.adapter.parseResponse(await response.json())
+
+    if (result.usage) {
+      recordUsage(
+        options?.usageCategory ?? this.config.usageCategory ?? 'classification',
+        result.usage
+      )
+    }
 
-      return content
-    } catch (error) {
+    if (result.error) {
+      throw new LLMRequestError(
+        `${this.adapter.name} API error: ${result.error}`,
+        null
+      )
+    }
+
+    const content = result.content?.trim() ?? null
+
+    // Log if we got an empty or null response for debugging
+    if (!content) {
       logger.warning(
-        `LLM completion failed: ${error instanceof Error ? error.message : String(error)}`
+        `LLM returned empty/null response. ` +
+          `Finish reason: ${result.finishReason ?? 'unknown'}, ` +
+          `Usage: ${JSON.stringify(result.usage ?? {})}, ` +
+          `Model: ${model}`
       )
-      throw error
     }
+
+    return content
   }
 }
+
+/**
+ * Errors that survived the retry policy may still be specific to the model or
+ * its upstream, so the next model may succeed. Client errors and an exhausted
+ * request budget would fail the same way on any model.
+ */
+function isFallbackError(error: unknown): boolean {
+  if (error instanceof RequestBudgetError) {
+    return false
+  }
+
+  return !(error instanceof LLMRequestError) || isRetryableError(error)
+}
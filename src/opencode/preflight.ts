@@ -0,0 +1,125 @@
+import type { PreflightErrorCategory } from '../config/constants.js'
+import { PreflightError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+import {
+  type PreflightRequest,
+  type ProviderConnection,
+  createChatAdapter
+} from './provider.js'
+
+const PREFLIGHT_TIMEOUT_MS = 10000
+
+/**
+ * Response text suggesting a 400 was caused by missing credit
+ */
+const QUOTA_MESSAGE_PATTERN = /credit|quota|billing|insufficient/i
+
+/**
+ * Verify the API key and model with the provider's free metadata endpoints
+ * instead of a paid completion. Throws a PreflightError describing why the
+ * provider cannot be used.
+ */
+export async function runProviderPreflight(
+  connection: ProviderConnection,
+  model: string,
+  timeoutMs: number = PREFLIGHT_TIMEOUT_MS
+): Promise<void> {
+  const adapter = createChatAdapter(connection)
+
+  for (const request of adapter.buildPreflightRequests(model)) {
+    await runPreflightRequest(adapter.name, request, timeoutMs)
+  }
+
+  logger.info(`${adapter.name} preflight passed for model ${model}`)
+}
+
+/**
+ * Map an HTTP error of a preflight request to the reason it failed
+ */
+export function categorizePreflightStatus(
+  status: number,
+  body: string,
+  notFound: PreflightErrorCategory | null
+): PreflightErrorCategory | null {
+  if (status === 401 || status === 403) {
+    return 'invalid_key'
+  }
+
+  if (status === 402 || status === 429) {
+    return 'quota_exhausted'
+  }
+
+  if (status === 404) {
+    return notFound
+  }
+
+  if (status === 400 && QUOTA_MESSAGE_PATTERN.test(body)) {
+    return 'quota_exhausted'
+  }
+
+  if (status >= 500) {
+    return 'provider_unavailable'
+  }
+
+  return 'unknown'
+}
+
+async function runPreflightRequest(
+  providerName: string,
+  request: PreflightRequest,
+  timeoutMs: number
+): Promise<void> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => {
+    controller.abort()
+  }, timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(request.url, {
+      method: 'GET',
+      headers: request.headers,
+      signal: controller.signal
+    })
+  } catch (error) {
+    throw new PreflightError(
+      `Failed to reach ${providerName}: ${error instanceof Error ? error.message : String(error)}`,
+      'provider_unavailable'
+    )
+  } finally {
+    clearTimeout(timeoutId)
+  }
+
+  if (!response.ok) {
+    const body = await response.text()
+    const category = categorizePreflightStatus(
+      response.status,
+      body,
+      request.notFound
+    )
+
+    if (category === null) {
+      logger.debug(
+        `${providerName} preflight: ${request.url} is not available, skipping`
+      )
+      return
+    }
+
+    throw new PreflightError(
+      `${providerName} preflight failed (${category}): ${response.status} - ${body}`,
+      category
+    )
+  }
+
+  if (!request.validate) {
+    return
+  }
+
+  const problem = request.validate(await response.json())
+  if (problem) {
+    throw new PreflightError(
+      `${providerName} preflight failed (${problem.category}): ${problem.message}`,
+      problem.category
+    )
+  }
+}
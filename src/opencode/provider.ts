@@ -0,0 +1,412 @@
+/**
+ * LLM provider layer shared by the OpenCode server configuration and the
+ * direct `LLMClient` used for classification and injection verification.
+ *
+ * Supported providers:
+ * - `openrouter`: OpenRouter (default)
+ * - `openai-compatible`: any OpenAI-compatible chat completions API behind a
+ *   base URL, e.g. vLLM, Ollama, LiteLLM or Azure OpenAI
+ * - `anthropic`: the Anthropic Messages API
+ */
+
+import {
+  ANTHROPIC_API_URL,
+  type LLMProvider,
+  OPENROUTER_API_BASE_URL,
+  type PreflightErrorCategory
+} from '../config/constants.js'
+import type { ReviewConfig } from '../execution/types.js'
+
+export type ProviderConnection = {
+  provider: LLMProvider
+  apiKey: string
+  /** API base URL; required for openai-compatible, an override otherwise */
+  baseUrl: string | null
+}
+
+export type ChatRequest = {
+  model: string
+  prompt: string
+  /** null lets the provider decide where it allows that */
+  maxTokens: number | null
+  temperature: number
+  title: string
+  /** OpenRouter-specific request fields, ignored by other providers */
+  extraBody?: Record<string, unknown>
+}
+
+export type ChatResponse = {
+  content: string | null
+  finishReason: string | null
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    costUsd?: number
+  } | null
+  /** Error reported in a successful HTTP response */
+  error: string | null
+}
+
+/**
+ * A cheap GET request verifying the key or model without a completion
+ */
+export type PreflightRequest = {
+  url: string
+  headers: Record<string, string>
+  /** Meaning of a 404 response, null when the endpoint is optional */
+  notFound: PreflightErrorCategory | null
+  /** Inspect a successful response, returning the problem found if any */
+  validate?: (
+    data: unknown
+  ) => { category: PreflightErrorCategory; message: string } | null
+}
+
+export type ChatAdapter = {
+  /** Human-readable provider name for logs and errors */
+  name: string
+  buildRequest(request: ChatRequest): {
+    url: string
+    headers: Record<string, string>
+    body: Record<string, unknown>
+  }
+  parseResponse(data: unknown): ChatResponse
+  buildPreflightRequests(model: string): PreflightRequest[]
+}
+
+/**
+ * Settings OpenCode needs to talk to the provider. The API key is passed via
+ * `env` so it never ends up in the logged config file.
+ */
+export type OpenCodeProviderSetup = {
+  providerId: string
+  /** Fully qualified model, `<providerId>/<model>` */
+  model: string
+  providerConfig: {
+    npm?: string
+    name?: string
+    options?: Record<string, unknown>
+    models: Record<string, { id?: string; name?: string }>
+  }
+  env: Record<string, string>
+}
+
+export type OpenCodeModelRef = {
+  providerID: string
+  modelID: string
+}
+
+/**
+ * Anthropic requires max_tokens on every request
+ */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096
+const ANTHROPIC_API_VERSION = '2023-06-01'
+
+/**
+ * Environment variable carrying the key of an OpenAI-compatible provider
+ */
+const OPENAI_COMPATIBLE_KEY_ENV = 'RMCOC_PROVIDER_API_KEY'
+
+/**
+ * OpenCode providers to switch off so only the configured one is used
+ */
+const OPENCODE_BUILTIN_PROVIDERS = [
+  'openrouter',
+  'gemini',
+  'anthropic',
+  'openai',
+  'azure',
+  'bedrock'
+]
+
+export function getProviderConnection(
+  config: ReviewConfig
+): ProviderConnection {
+  return {
+    provider: config.opencode.provider,
+    apiKey: config.opencode.apiKey,
+    baseUrl: config.opencode.baseUrl
+  }
+}
+
+export function createChatAdapter(connection: ProviderConnection): ChatAdapter {
+  switch (connection.provider) {
+    case 'openrouter':
+      return createOpenRouterAdapter(connection)
+    case 'openai-compatible':
+      return createOpenAICompatibleAdapter(connection)
+    case 'anthropic':
+      return createAnthropicAdapter(connection)
+  }
+}
+
+/**
+ * OpenCode provider setup. Fallback models are registered with the provider
+ * so sessions can switch to them per prompt.
+ */
+export function buildOpenCodeProviderSetup(
+  connection: ProviderConnection,
+  model: string,
+  fallbackModels: string[] = []
+): OpenCodeProviderSetup {
+  const models = Object.fromEntries(
+    [model, ...fallbackModels].map((m) => [m, { id: m, name: m }])
+  )
+
+  switch (connection.provider) {
+    case 'openrouter':
+      return {
+        providerId: 'openrouter',
+        model: `openrouter/${model}`,
+        providerConfig: {
+          options: connection.baseUrl ? { baseURL: connection.baseUrl } : {},
+          models
+        },
+        env: { OPENROUTER_API_KEY: connection.apiKey }
+      }
+    case 'anthropic':
+      return {
+        providerId: 'anthropic',
+        model: `anthropic/${model}`,
+        providerConfig: {
+          options: connection.baseUrl ? { baseURL: connection.baseUrl } : {},
+          models
+        },
+        env: { ANTHROPIC_API_KEY: connection.apiKey }
+      }
+    case 'openai-compatible':
+      return {
+        providerId: 'openai-compatible',
+        model: `openai-compatible/${model}`,
+        providerConfig: {
+          npm: '@ai-sdk/openai-compatible',
+          name: 'OpenAI-compatible',
+          options: {
+            baseURL: connection.baseUrl,
+            apiKey: `{env:${OPENAI_COMPATIBLE_KEY_ENV}}`
+          },
+          models
+        },
+        env: { [OPENAI_COMPATIBLE_KEY_ENV]: connection.apiKey }
+      }
+  }
+}
+
+/**
+ * Model selection for an OpenCode prompt
+ */
+export function getOpenCodeModelRef(
+  connection: ProviderConnection,
+  model: string
+): OpenCodeModelRef {
+  const { providerId } = buildOpenCodeProviderSetup(connection, model)
+  return { providerID: providerId, modelID: model }
+}
+
+/**
+ * Built-in OpenCode providers other than the one in use
+ */
+export function getDisabledOpenCodeProviders(providerId: string): string[] {
+  return OPENCODE_BUILTIN_PROVIDERS.filter((p) => p !== providerId)
+}
+
+function createOpenRouterAdapter(connection: ProviderConnection): ChatAdapter {
+  const baseUrl = connection.baseUrl ?? OPENROUTER_API_BASE_URL
+  const authorization = `Bearer ${connection.apiKey}`
+
+  return {
+    name: 'OpenRouter',
+    buildRequest: (request) => ({
+      url: joinUrl(baseUrl, 'chat/completions'),
+      headers: {
+        Authorization: authorization,
+        'HTTP-Referer': 'https://github.com/tomsjansons/rmc-oc',
+        'X-Title': request.title,
+        'Content-Type': 'application/json'
+      },
+      body: {
+        ...buildOpenAIBody(request),
+        // Ask OpenRouter to include the cost of the request in `usage`
+        usage: { include: true },
+        ...request.extraBody
+      }
+    }),
+    parseResponse: parseOpenAIResponse,
+    buildPreflightRequests: (model) => [
+      {
+        url: joinUrl(baseUrl, 'key'),
+        headers: { Authorization: authorization },
+        notFound: null,
+        validate: (data) => {
+          const key = (data as { data?: { limit_remaining?: number | null } })
+            .data
+          return typeof key?.limit_remaining === 'number' &&
+            key.limit_remaining <= 0
+            ? {
+                category: 'quota_exhausted',
+                message: 'The API key has no credit limit remaining'
+              }
+            : null
+        }
+      },
+      {
+        url: joinUrl(baseUrl, `models/${model}/endpoints`),
+        headers: { Authorization: authorization },
+        notFound: 'unknown_model',
+        validate: (data) => {
+          const endpoints = (data as { data?: { endpoints?: unknown[] } }).data
+            ?.endpoints
+          return Array.isArray(endpoints) && endpoints.length === 0
+            ? {
+                category: 'provider_unavailable',
+                message: `No provider currently serves ${model}`
+              }
+            : null
+        }
+      }
+    ]
+  }
+}
+
+function createOpenAICompatibleAdapter(
+  connection: ProviderConnection
+): ChatAdapter {
+  const url = joinUrl(connection.baseUrl ?? '', 'chat/completions')
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json'
+  }
+
+  if (connection.apiKey) {
+    headers.Authorization = `Bearer ${connection.apiKey}`
+    // Azure OpenAI authenticates API keys with its own header
+    headers['api-key'] = connection.apiKey
+  }
+
+  return {
+    name: 'OpenAI-compatible API',
+    buildRequest: (request) => ({
+      url,
+      headers,
+      body: buildOpenAIBody(request)
+    }),
+    parseResponse: parseOpenAIResponse,
+    // Only the key and reachability are checked: servers such as Azure OpenAI
+    // or LiteLLM do not list deployment names and aliases under /models
+    buildPreflightRequests: () => [
+      {
+        url: joinUrl(connection.baseUrl ?? '', 'models'),
+        headers,
+        notFound: null
+      }
+    ]
+  }
+}
+
+function createAnthropicAdapter(connection: ProviderConnection): ChatAdapter {
+  const baseUrl = connection.baseUrl ?? ANTHROPIC_API_URL
+  const authHeaders = {
+    'x-api-key': connection.apiKey,
+    'anthropic-version': ANTHROPIC_API_VERSION
+  }
+
+  return {
+    name: 'Anthropic',
+    buildRequest: (request) => ({
+      url: joinUrl(baseUrl, 'messages'),
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: request.model,
+        max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }]
+      }
+    }),
+    parseResponse: (data) => {
+      const response = data as {
+        content?: Array<{ type: string; text?: string }>
+        stop_reason?: string | null
+        usage?: { input_tokens: number; output_tokens: number }
+        error?: { type?: string; message?: string }
+      }
+
+      const text = response.content
+        ?.filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('')
+
+      return {
+        content: text ?? null,
+        finishReason: response.stop_reason ?? null,
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.input_tokens,
+              completionTokens: response.usage.output_tokens
+            }
+          : null,
+        error: response.error
+          ? `${response.error.type ?? 'error'} - ${response.error.message ?? 'unknown error'}`
+          : null
+      }
+    },
+    buildPreflightRequests: (model) => [
+      {
+        url: joinUrl(baseUrl, `models/${encodeURIComponent(model)}`),
+        headers: authHeaders,
+        notFound: 'unknown_model'
+      }
+    ]
+  }
+}
+
+function buildOpenAIBody(request: ChatRequest): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model: request.model,
+    messages: [{ role: 'user', content: request.prompt }],
+    temperature: request.temperature
+  }
+
+  if (request.maxTokens !== null) {
+    body.max_tokens = request.maxTokens
+  }
+
+  return body
+}
+
+function parseOpenAIResponse(data: unknown): ChatResponse {
+  const response = data as {
+    choices?: Array<{
+      message?: { content?: string; role?: string }
+      finish_reason?: string | null
+      error?: { code: number; message: string }
+    }>
+    usage?: {
+      prompt_tokens: number
+      completion_tokens: number
+      total_tokens: number
+      cost?: number
+    }
+  }
+
+  const choice = response.choices?.[0]
+
+  return {
+    content: choice?.message?.content ?? null,
+    finishReason: choice?.finish_reason ?? null,
+    usage: response.usage
+      ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          costUsd: response.usage.cost
+        }
+      : null,
+    error: choice?.error
+      ? `${choice.error.code} - ${choice.error.message}`
+      : null
+  }
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path}`
+}
@@ -0,0 +1,193 @@
+/**
+ * Retry policy shared by all direct LLM requests.
+ *
+ * Rate limits, server errors and network failures are retried with
+ * exponential backoff and jitter, honoring `Retry-After`. Client errors such
+ * as an invalid key or a malformed request fail immediately. Every attempt is
+ * counted in a module-level ledger, like token usage, which enforces the
+ * per-run request budget and feeds the job summary.
+ */
+
+import { LLMRequestError, RequestBudgetError } from '../utils/errors.js'
+import { delay } from '../utils/async.js'
+import { logger } from '../utils/logger.js'
+
+export type RetryPolicy = {
+  /** Attempts per request, including the first */
+  maxAttempts: number
+  baseDelayMs: number
+  /** Longest wait between attempts; a longer Retry-After gives up instead */
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+}
+
+export type LLMRequestMetrics = {
+  /** HTTP requests sent, retries included */
+  requests: number
+  retries: number
+  /** 429 responses received */
+  rateLimited: number
+  /** Requests that failed after their last attempt */
+  failed: number
+  /** Time spent waiting between attempts */
+  waitMs: number
+  /** Requests refused because the request budget was used up */
+  budgetRejected: number
+}
+
+type RetryOptions = {
+  /** Used in log messages, e.g. "OpenRouter request (openai/gpt-4o)" */
+  description: string
+  policy?: RetryPolicy
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+let metrics: LLMRequestMetrics = emptyMetrics()
+let maxRequests: number | null = null
+
+function emptyMetrics(): LLMRequestMetrics {
+  return {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+    failed: 0,
+    waitMs: 0,
+    budgetRejected: 0
+  }
+}
+
+export function setRequestBudget(limit: number | null): void {
+  maxRequests = limit
+}
+
+export function getRequestMetrics(): LLMRequestMetrics {
+  return { ...metrics }
+}
+
+export function clearRequestMetrics(): void {
+  metrics = emptyMetrics()
+  maxRequests = null
+}
+
+/**
+ * Rate limits, server errors, provider errors reported inside a response and
+ * network failures may succeed on a later attempt
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) {
+    return error.status === null || error.status === 429 || error.status >= 500
+  }
+
+  // fetch rejects with a TypeError when the connection fails
+  return (
+    error instanceof TypeError ||
+    (error instanceof Error &&
+      (error.name === 'AbortError' || error.name === 'TimeoutError'))
+  )
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Wait before the given retry (1 for the first retry): the server's
+ * Retry-After when present, otherwise exponential backoff with jitter.
+ * Returns null when the server asks for a longer wait than the policy allows.
+ */
+export function getRetryDelayMs(
+  retry: number,
+  policy: RetryPolicy,
+  retryAfterMs: number | null,
+  random: () => number = Math.random
+): number | null {
+  if (retryAfterMs !== null) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null
+  }
+
+  const backoff = Math.min(
+    policy.baseDelayMs * 2 ** (retry - 1),
+    policy.maxDelayMs
+  )
+
+  // Equal jitter keeps at least half the backoff while spreading out clients
+  return Math.round(backoff / 2 + (random() * backoff) / 2)
+}
+
+/**
+ * Run an LLM request under the retry policy and the run's request budget
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY
+  const sleep = options.sleep ?? delay
+
+  for (let attempt = 1; ; attempt++) {
+    reserveRequest(options.description)
+
+    try {
+      return await operation()
+    } catch (error) {
+      if (error instanceof LLMRequestError && error.status === 429) {
+        metrics.rateLimited++
+      }
+
+      const delayMs =
+        attempt < policy.maxAttempts && isRetryableError(error)
+          ? getRetryDelayMs(
+              attempt,
+              policy,
+              error instanceof LLMRequestError ? error.retryAfterMs : null,
+              options.random
+            )
+          : null
+
+      if (delayMs === null) {
+        metrics.failed++
+        throw error
+      }
+
+      metrics.retries++
+      metrics.waitMs += delayMs
+      logger.warning(
+        `${options.description} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`
+      )
+      await sleep(delayMs)
+    }
+  }
+}
+
+function reserveRequest(description: string): void {
+  if (maxRequests !== null && metrics.requests >= maxRequests) {
+    metrics.budgetRejected++
+    throw new RequestBudgetError(
+      `${description} skipped: the budget of ${maxRequests} LLM requests is used up`
+    )
+  }
+
+  metrics.requests++
+}
@@ -20,6 +20,12 @@ import { setupToolsInConfigDir } from '../setup/tools.js'
 import { delay } from '../utils/async.js'
 import { OpenCodeError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import {
+  type OpenCodeProviderSetup,
+  buildOpenCodeProviderSetup,
+  getDisabledOpenCodeProviders,
+  getProviderConnection
+} from './provider.js'
 import { OPENCODE_PACKAGE_SPECIFIER } from './version.js'
 
 function getOpenCodeCLICommand(): { command: string; args: string[] } {
@@ -35,22 +41,12 @@ type PermissionAction = 'allow' | 'ask' | 'deny'
 
 type BashPermission = PermissionAction | Record<string, PermissionAction>
 
-type OpenCodeModelConfig = {
-  id?: string
-  name?: string
-  options?: Record<string, unknown>
-}
-
 type OpenCodeConfig = {
   $schema: string
   model: string
   enabled_providers: string[]
   disabled_providers: string[]
-  provider: {
-    openrouter: {
-      models: Record<string, OpenCodeModelConfig>
-    }
-  }
+  provider: Record<string, OpenCodeProviderSetup['providerConfig']>
   permission: Record<string, PermissionAction | BashPermission>
 }
 
@@ -191,13 +187,14 @@ export class OpenCodeServer {
     logger.info(`OpenCode server URL: ${this.getUrl()}`)
 
     const workspaceDir = process.env.GITHUB_WORKSPACE || process.cwd()
+    const providerEnv = this.getProviderSetup().env
 
     const env: Record<string, string> = {
+      ...providerEnv,
       OPENCODE_CLIENT: 'server',
       OPENCODE_ENABLE_QUESTION_TOOL: '0',
       OPENCODE_CONFIG_DIR: this.configDirPath,
       OPENCODE_DISABLE_PROJECT_CONFIG: 'true',
-      OPENROUTER_API_KEY: this.config.opencode.apiKey,
       PATH: process.env.PATH || '',
       HOME: process.env.HOME || '',
       TMPDIR: process.env.TMPDIR || process.env.TEMP || '/tmp',
@@ -212,10 +209,12 @@ export class OpenCodeServer {
     logger.info(
       `OpenCode environment: OPENCODE_CONFIG_DIR=${env.OPENCODE_CONFIG_DIR}, OPENCODE_DISABLE_PROJECT_CONFIG=${env.OPENCODE_DISABLE_PROJECT_CONFIG}`
     )
-    logger.debug('OPENROUTER_API_KEY passed via environment variable')
+    logger.debug(
+      `${Object.keys(providerEnv).join(', ')} passed via environment variable`
+    )
     logger.debug(
       `Minimal environment: ${Object.keys(env)
-        .filter((key) => key !== 'OPENROUTER_API_KEY')
+        .filter((key) => !(key in providerEnv))
         .join(', ')}`
     )
 
@@ -303,27 +302,27 @@ export class OpenCodeServer {
     }
   }
 
+  private getProviderSetup(): OpenCodeProviderSetup {
+    return buildOpenCodeProviderSetup(
+      getProviderConnection(this.config),
+      this.config.opencode.model,
+      this.config.opencode.fallbackModels
+    )
+  }
+
   private buildConfig(): OpenCodeConfig {
-    const model = this.config.opencode.model
-    const openrouterModel = `openrouter/${model}`
+    const setup = this.getProviderSetup()
     const webPermission: PermissionAction = this.config.opencode.enableWeb
       ? 'allow'
       : 'deny'
 
     return {
       $schema: 'https://opencode.ai/config.json',
-      model: openrouterModel,
-      enabled_providers: ['openrouter'],
-      disabled_providers: ['gemini', 'anthropic', 'openai', 'azure', 'bedrock'],
+      model: setup.model,
+      enabled_providers: [setup.providerId],
+      disabled_providers: getDisabledOpenCodeProviders(setup.providerId),
       provider: {
-        openrouter: {
-          models: {
-            [model]: {
-              id: model,
-              name: model
-            }
-          }
-        }
+        [setup.providerId]: setup.providerConfig
       },
       permission: {
         '*': 'allow',
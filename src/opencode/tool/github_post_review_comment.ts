@@ -2,7 +2,7 @@ import { tool } from '@opencode-ai/plugin'
 import { createTRPCProxyClient, httpBatchLink } from '@trpc/client'
 import superjson from 'superjson'
 
-import { TRPC_SERVER_URL } from '../../config/constants.js'
+import { FINDING_CATEGORIES, TRPC_SERVER_URL } from '../../config/constants.js'
 import type { AppRouter } from '../../trpc/router.js'
 
 const trpc = createTRPCProxyClient<AppRouter>({
@@ -19,7 +19,23 @@ export default tool({
     'Post a review comment on the PR. Automatically filtered if score is below problem_threshold.',
   args: {
     file: tool.schema.string().describe('File path relative to repo root'),
-    line: tool.schema.number().describe('Line number in the file'),
+    line: tool.schema
+      .number()
+      .describe(
+        'Line number in the file. For a multi-line range, the last line of the range'
+      ),
+    startLine: tool.schema
+      .number()
+      .optional()
+      .describe(
+        'First line of a multi-line range (e.g. a whole function or block). Omit for single-line comments'
+      ),
+    side: tool.schema
+      .enum(['LEFT', 'RIGHT'])
+      .optional()
+      .describe(
+        'Diff side: RIGHT (default) for lines of the new version, LEFT for deleted lines of the base version'
+      ),
     body: tool.schema
       .string()
       .describe(
@@ -37,17 +53,66 @@ export default tool({
           .number()
           .min(1)
           .max(10)
-          .describe('Severity score 1-10 based on rubric')
+          .describe('Severity score 1-10 based on rubric'),
+        category: tool.schema
+          .enum(FINDING_CATEGORIES)
+          .describe(
+            'Kind of issue: security, correctness, performance, maintainability, style, rule-violation or testing'
+          ),
+        tags: tool.schema
+          .array(tool.schema.string())
+          .optional()
+          .describe(
+            'Optional short labels for the issue, e.g. ["sql-injection", "n+1-query"]'
+          ),
+        ruleRef: tool.schema
+          .string()
+          .optional()
+          .describe(
+            'For rule violations, the AGENTS.md rule that is violated (heading or quoted rule text)'
+          )
+      })
+      .describe('Structured assessment with score'),
+    suggestedFix: tool.schema
+      .object({
+        startLine: tool.schema
+          .number()
+          .describe('First line to replace (new version of the file)'),
+        endLine: tool.schema
+          .number()
+          .describe('Last line to replace (new version of the file)'),
+        replacement: tool.schema
+          .string()
+          .describe(
+            'Exact new content for the replaced lines, including indentation'
+          )
       })
-      .describe('Structured assessment with score')
+      .optional()
+      .describe(
+        'Committable fix rendered as a GitHub suggestion. Only used when suggestions are enabled.'
+      )
   },
   async execute(args) {
     const result = await trpc.github.postReviewComment.mutate(args)
 
+    if (result.filtered && result.commentableRanges) {
+      return `Comment not posted: ${result.reason}. Choose a line within the commentable ranges and try again.`
+    }
+
     if (result.filtered) {
       return `Comment filtered: ${result.reason}`
     }
 
-    return `Comment posted successfully. Thread ID: ${result.threadId}`
+    const notes = [
+      result.snappedToLine !== undefined
+        ? `Anchored to line ${result.snappedToLine}, the nearest changed line.`
+        : '',
+      result.suggestionDropped ?? ''
+    ].filter(Boolean)
+
+    return [
+      `Comment posted successfully. Thread ID: ${result.threadId}.`,
+      ...notes
+    ].join(' ')
   }
 })
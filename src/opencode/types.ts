@@ -3,3 +3,11 @@ export interface Session {
   title: string
   createdAt: number
 }
+
+export interface SessionUsage {
+  /** Assistant messages in the session */
+  messages: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
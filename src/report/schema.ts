@@ -0,0 +1,118 @@
+import { z } from 'zod'
+
+import {
+  FINDING_CATEGORIES,
+  PREFLIGHT_ERROR_CATEGORIES,
+  USAGE_CATEGORIES
+} from '../config/constants.js'
+
+/**
+ * Schema of the JSON run report published through the `report_path` output.
+ *
+ * Downstream workflow steps can validate the file with `runReportSchema`,
+ * exported as `rmc-opencode/report`. Fields may be added within a version;
+ * removing, renaming or retyping a field bumps REPORT_SCHEMA_VERSION.
+ */
+export const REPORT_SCHEMA_VERSION = 1
+
+export const tokenUsageSchema = z.object({
+  requests: z.number().int().nonnegative(),
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+  costUsd: z.number().nonnegative()
+})
+
+export const taskResultSchema = z.object({
+  type: z.enum(['dispute-resolution', 'question-answering', 'full-review']),
+  success: z.boolean(),
+  issuesFound: z.number().int().nonnegative(),
+  blockingIssues: z.number().int().nonnegative(),
+  error: z.string().optional(),
+  durationMs: z.number().nonnegative().optional(),
+  /** Model in use when the task finished, after any fallbacks */
+  model: z.string().optional(),
+  checkRunCompleted: z.boolean().optional()
+})
+
+export const executionResultSchema = z.object({
+  results: z.array(taskResultSchema),
+  hasBlockingIssues: z.boolean(),
+  totalTasks: z.number().int().nonnegative(),
+  reviewCompleted: z.boolean(),
+  hadAutoReview: z.boolean(),
+  autoReviewCheckRunCompleted: z.boolean().optional(),
+  hadManualReview: z.boolean(),
+  /** Why remaining tasks were skipped, if the usage budget ran out */
+  budgetExceeded: z.string().optional(),
+  skippedTasks: z.number().int().nonnegative().optional(),
+  skippedAutoReview: z.boolean().optional()
+})
+
+export const reportThreadSchema = z.object({
+  id: z.string(),
+  file: z.string(),
+  /** Last line of the commented range */
+  line: z.number().int(),
+  startLine: z.number().int().optional(),
+  side: z.enum(['LEFT', 'RIGHT']),
+  score: z.number(),
+  status: z.enum(['PENDING', 'RESOLVED', 'DISPUTED', 'ESCALATED']),
+  finding: z.string(),
+  /** Absent on findings posted before categories existed */
+  category: z.enum(FINDING_CATEGORIES).optional(),
+  tags: z.array(z.string()).optional(),
+  /** AGENTS.md rule the finding refers to */
+  ruleRef: z.string().optional(),
+  /** Review pass that raised the finding, absent when unknown */
+  pass: z.number().int().optional()
+})
+
+export const reportPassSchema = z.object({
+  passNumber: z.number().int(),
+  completed: z.boolean(),
+  hasBlockingIssues: z.boolean(),
+  /** Wall-clock time of the pass, null when it did not run in this run */
+  durationMs: z.number().nonnegative().nullable()
+})
+
+export const preflightSchema = z.object({
+  /** Skipped when disabled or when no task was pending */
+  status: z.enum(['passed', 'skipped', 'failed']),
+  errorCategory: z.enum(PREFLIGHT_ERROR_CATEGORIES).optional(),
+  error: z.string().optional()
+})
+
+export const runReportSchema = z.object({
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  generatedAt: z.string().datetime(),
+  pullRequest: z
+    .object({
+      owner: z.string(),
+      repo: z.string(),
+      number: z.number().int()
+    })
+    .nullable(),
+  /** Same value as the `review_status` output */
+  reviewStatus: z.enum(['completed', 'tasks_executed', 'failed']),
+  /** Error that aborted the run before or during task execution */
+  error: z.string().optional(),
+  /** Null when the run failed before any task executed */
+  execution: executionResultSchema.nullable(),
+  preflight: preflightSchema,
+  threads: z.array(reportThreadSchema),
+  passes: z.array(reportPassSchema),
+  usage: z.object({
+    total: tokenUsageSchema,
+    byCategory: z.array(
+      tokenUsageSchema.extend({
+        category: z.enum(USAGE_CATEGORIES)
+      })
+    )
+  })
+})
+
+export type RunReport = z.infer<typeof runReportSchema>
+export type ReportThread = z.infer<typeof reportThreadSchema>
+export type ReportPass = z.infer<typeof reportPassSchema>
+export type ReportPreflight = z.infer<typeof preflightSchema>
@@ -0,0 +1,114 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+
+import type { ReviewConfig } from '../execution/types.js'
+import type { ProcessState } from '../state/manager.js'
+import type { ExecutionResult } from '../task/types.js'
+import type { TokenUsage, UsageCategory } from '../utils/usage.js'
+import {
+  REPORT_SCHEMA_VERSION,
+  type ReportPass,
+  type ReportPreflight,
+  type RunReport,
+  runReportSchema
+} from './schema.js'
+
+export const REPORT_FILE_NAME = 'rmcoc-report.json'
+
+export type RunReportInput = {
+  config: ReviewConfig | null
+  reviewStatus: RunReport['reviewStatus']
+  execution: ExecutionResult | null
+  preflight: ReportPreflight
+  state: ProcessState | null
+  passTimings: Array<{ passNumber: number; durationMs: number }>
+  usage: {
+    byCategory: Array<{ category: UsageCategory } & TokenUsage>
+    total: TokenUsage
+  }
+  error?: string
+}
+
+/**
+ * Report location: the runner's temp directory, which is cleaned up after
+ * the job, falling back to the OS temp directory outside of Actions
+ */
+export function getDefaultReportPath(): string {
+  return join(process.env.RUNNER_TEMP || tmpdir(), REPORT_FILE_NAME)
+}
+
+export function buildRunReport(input: RunReportInput): RunReport {
+  const { config, state } = input
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    pullRequest: config
+      ? {
+          owner: config.github.owner,
+          repo: config.github.repo,
+          number: config.github.prNumber
+        }
+      : null,
+    reviewStatus: input.reviewStatus,
+    error: input.error,
+    execution: input.execution,
+    preflight: input.preflight,
+    threads: (state?.threads ?? []).map((t) => ({
+      id: t.id,
+      file: t.file,
+      line: t.line,
+      startLine: t.start_line,
+      side: t.side ?? 'RIGHT',
+      score: t.score,
+      status: t.status,
+      finding: t.assessment.finding,
+      category: t.assessment.category,
+      tags: t.assessment.tags,
+      ruleRef: t.assessment.ruleRef,
+      pass: t.pass
+    })),
+    passes: buildPasses(state, input.passTimings),
+    usage: input.usage
+  }
+}
+
+/**
+ * Validate the report against the published schema and write it as JSON
+ */
+export async function writeRunReport(
+  path: string,
+  report: RunReport
+): Promise<void> {
+  const validated = runReportSchema.parse(report)
+
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(validated, null, 2)}\n`, 'utf8')
+}
+
+/**
+ * Persisted pass outcomes combined with the timings of passes run now. A pass
+ * that ran without submitting results is reported as not completed.
+ */
+function buildPasses(
+  state: ProcessState | null,
+  timings: RunReportInput['passTimings']
+): ReportPass[] {
+  const passes = new Map<number, ReportPass>()
+
+  for (const pass of state?.passes ?? []) {
+    passes.set(pass.passNumber, { ...pass, durationMs: null })
+  }
+
+  for (const { passNumber, durationMs } of timings) {
+    passes.set(passNumber, {
+      passNumber,
+      completed: passes.get(passNumber)?.completed ?? false,
+      hasBlockingIssues: passes.get(passNumber)?.hasBlockingIssues ?? false,
+      durationMs
+    })
+  }
+
+  return [...passes.values()].sort((a, b) => a.passNumber - b.passNumber)
+}
@@ -1,24 +1,49 @@
 import * as core from '@actions/core'
 import { Octokit } from '@octokit/rest'
 
-import { BOT_USERS } from '../config/constants.js'
+import {
+  BOT_USERS,
+  FINDING_CATEGORIES,
+  type FindingCategory
+} from '../config/constants.js'
+import { type DiffSide, isPendingCommentId } from '../github/api.js'
+import { ReviewCommentIndex } from '../github/review-comments.js'
+import { fetchReviewThreads } from '../github/review-threads.js'
 import type { LLMClient } from '../opencode/llm-client.js'
 import type { PassResult, ReviewConfig } from '../execution/types.js'
 import { sanitizeDelimiters } from '../utils/security.js'
+import {
+  STATE_SCHEMA_VERSION,
+  isStateComment,
+  parseStateComment,
+  serializeStateComment
+} from './persistence.js'
 
-const STATE_SCHEMA_VERSION = 1
+/**
+ * Structured assessment embedded in every review comment. Category, tags and
+ * rule reference are absent on findings posted before categories existed.
+ */
+export type IssueAssessment = {
+  finding: string
+  assessment: string
+  score: number
+  category?: FindingCategory
+  tags?: string[]
+  /** AGENTS.md rule the finding refers to */
+  ruleRef?: string
+}
 
 export type ReviewThread = {
   id: string
   file: string
   line: number
+  /** First line of a multi-line thread, `line` being the last */
+  start_line?: number
+  /** Absent for threads on the head version (RIGHT) */
+  side?: DiffSide
   status: 'PENDING' | 'RESOLVED' | 'DISPUTED' | 'ESCALATED'
   score: number
-  assessment: {
-    finding: string
-    assessment: string
-    score: number
-  }
+  assessment: IssueAssessment
   original_comment: {
     author: string
     body: string
@@ -30,6 +55,18 @@ export type ReviewThread = {
     timestamp: string
   }>
   escalated_at?: string
+  /** GitHub marks the thread outdated once the commented code changes */
+  is_outdated?: boolean
+  /** Review pass that raised the finding, unknown for rebuilt threads */
+  pass?: number
+  /** Commit that `line` and `start_line` refer to, unknown for older threads */
+  anchor_sha?: string
+}
+
+export type CommentRange = {
+  startLine?: number
+  line: number
+  side?: DiffSide
 }
 
 /**
@@ -68,13 +105,25 @@ export class StateManager {
   private currentState: ProcessState | null = null
   private autoReviewTrigger: AutoReviewTrigger | null = null
   private autoReviewCommentId: number | null = null
+  private stateCommentId: number | null = null
+  private persistedStateBody: string | null = null
+  private reviewComments: ReviewCommentIndex
 
   constructor(
     private config: ReviewConfig,
     private llmClient: LLMClient,
-    private octokit: Octokit
+    private octokit: Octokit,
+    reviewComments?: ReviewCommentIndex
   ) {
     this.sentimentCache = new Map()
+    this.reviewComments =
+      reviewComments ??
+      new ReviewCommentIndex(
+        octokit,
+        config.github.owner,
+        config.github.repo,
+        config.github.prNumber
+      )
   }
 
   updateState(state: ProcessState): void {
@@ -96,71 +145,7 @@ export class StateManager {
       })
 
       const lastCommitSha = prData.data.head.sha
-
-      const reviewComments = await this.octokit.pulls.listReviewComments({
-        owner,
-        repo,
-        pull_number: prNumber,
-        per_page: 100
-      })
-
-      const threads: ReviewThread[] = []
-      const commentMap = new Map<number, (typeof reviewComments.data)[0][]>()
-
-      for (const comment of reviewComments.data) {
-        const replyToId = comment.in_reply_to_id
-        if (replyToId) {
-          const replies = commentMap.get(replyToId) || []
-          replies.push(comment)
-          commentMap.set(replyToId, replies)
-        }
-      }
-
-      for (const comment of reviewComments.data) {
-        if (comment.in_reply_to_id) {
-          continue
-        }
-
-        const commentAuthor = comment.user?.login
-        if (!commentAuthor || !BOT_USERS.includes(commentAuthor)) {
-          continue
-        }
-
-        const threadId = String(comment.id)
-        const assessment = this.extractAssessmentFromComment(comment.body)
-
-        if (!assessment) {
-          continue
-        }
-
-        const replies = commentMap.get(comment.id) || []
-
-        const status = this.determineThreadStatus(replies)
-
-        const developerReplies = replies
-          .filter((r) => !BOT_USERS.includes(r.user?.login || ''))
-          .map((r) => ({
-            author: r.user?.login || 'unknown',
-            body: r.body,
-            timestamp: r.created_at
-          }))
-
-        threads.push({
-          id: threadId,
-          file: comment.path,
-          line: comment.line || comment.original_line || 1,
-          status,
-          score: assessment.score,
-          assessment,
-          original_comment: {
-            author: comment.user?.login || 'unknown',
-            body: comment.body,
-            timestamp: comment.created_at
-          },
-          developer_replies:
-            developerReplies.length > 0 ? developerReplies : undefined
-        })
-      }
+      const threads = await this.collectCommentThreads()
 
       const state: ProcessState = {
         version: STATE_SCHEMA_VERSION,
@@ -186,6 +171,66 @@ export class StateManager {
     }
   }
 
+  /**
+   * Threads of the bot's review comments that carry an assessment
+   */
+  private async collectCommentThreads(): Promise<ReviewThread[]> {
+    const threadRoots = await this.reviewComments.getThreadRoots()
+    const threads: ReviewThread[] = []
+
+    for (const comment of threadRoots) {
+      const commentAuthor = comment.user?.login
+      if (!commentAuthor || !BOT_USERS.includes(commentAuthor)) {
+        continue
+      }
+
+      const threadId = String(comment.id)
+      const assessment = this.extractAssessmentFromComment(comment.body)
+
+      if (!assessment) {
+        continue
+      }
+
+      const replies = await this.reviewComments.getReplies(comment.id)
+
+      const status = this.determineThreadStatus(replies)
+
+      const developerReplies = replies
+        .filter((r) => !BOT_USERS.includes(r.user?.login || ''))
+        .map((r) => ({
+          author: r.user?.login || 'unknown',
+          body: r.body,
+          timestamp: r.created_at
+        }))
+
+      threads.push({
+        id: threadId,
+        file: comment.path,
+        line: comment.line || comment.original_line || 1,
+        start_line:
+          comment.start_line || comment.original_start_line || undefined,
+        side: comment.side === 'LEFT' ? 'LEFT' : undefined,
+        // GitHub clears `line` once the comment no longer applies to the
+        // latest commit, leaving `original_line` on the original commit
+        anchor_sha:
+          (comment.line ? comment.commit_id : comment.original_commit_id) ||
+          undefined,
+        status,
+        score: assessment.score,
+        assessment,
+        original_comment: {
+          author: comment.user?.login || 'unknown',
+          body: comment.body,
+          timestamp: comment.created_at
+        },
+        developer_replies:
+          developerReplies.length > 0 ? developerReplies : undefined
+      })
+    }
+
+    return threads
+  }
+
   private determineThreadStatus(
     replies: Array<{ body: string; user?: { login?: string } | null }>
   ): 'PENDING' | 'RESOLVED' | 'DISPUTED' | 'ESCALATED' {
@@ -236,11 +281,7 @@ export class StateManager {
     return null
   }
 
-  private extractAssessmentFromComment(body: string): {
-    finding: string
-    assessment: string
-    score: number
-  } | null {
+  private extractAssessmentFromComment(body: string): IssueAssessment | null {
     const patterns = [
       /```rmcoc\s*(\{[\s\S]*?\})\s*```/,
       /```json\s*(\{[\s\S]*?\})\s*```/,
@@ -258,7 +299,13 @@ export class StateManager {
             parsed.assessment &&
             typeof parsed.score === 'number'
           ) {
-            return parsed
+            return {
+              ...parsed,
+              // Drop a category the schema no longer knows
+              category: FINDING_CATEGORIES.includes(parsed.category)
+                ? parsed.category
+                : undefined
+            }
           }
         }
       } catch (error) {
@@ -380,7 +427,208 @@ Respond with ONLY "true" if this is a concession, or "false" if it is not.`
       return this.currentState
     }
 
-    return await this.rebuildStateFromComments()
+    const persisted = await this.loadPersistedState()
+    const state = persisted ?? (await this.rebuildStateFromComments())
+
+    if (persisted) {
+      await this.mergeCommentThreads(persisted)
+    }
+    await this.reconcileWithReviewThreads(state)
+    this.updateState(state)
+
+    return state
+  }
+
+  /**
+   * Add threads of the bot's review comments that the persisted state lacks,
+   * e.g. comments posted by a run that failed before persisting its state, and
+   * the commits missing from threads of older states. Failures are logged and
+   * the persisted state is used as-is.
+   */
+  private async mergeCommentThreads(state: ProcessState): Promise<void> {
+    try {
+      const commentThreads = await this.collectCommentThreads()
+      const known = new Map(state.threads.map((t) => [t.id, t]))
+
+      let addedCount = 0
+      for (const commentThread of commentThreads) {
+        const thread = known.get(commentThread.id)
+        if (!thread) {
+          state.threads.push(commentThread)
+          addedCount++
+        } else if (!thread.anchor_sha && thread.line === commentThread.line) {
+          thread.anchor_sha = commentThread.anchor_sha
+        }
+      }
+
+      if (addedCount > 0) {
+        core.info(
+          `Added ${addedCount} thread(s) from review comments missing from the persisted state`
+        )
+      }
+    } catch (error) {
+      core.warning(
+        `Failed to merge review comments into the persisted state: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Apply GitHub's own thread flags on top of the state: threads resolved on
+   * GitHub (e.g. manually by a human) become RESOLVED, and outdated threads
+   * are flagged so fix verification checks them. Failures are logged and the
+   * state is used as-is.
+   */
+  private async reconcileWithReviewThreads(state: ProcessState): Promise<void> {
+    const { owner, repo, prNumber } = this.config.github
+
+    try {
+      const reviewThreads = await fetchReviewThreads(
+        this.octokit,
+        owner,
+        repo,
+        prNumber
+      )
+      const byRootComment = new Map(
+        reviewThreads.map((t) => [String(t.rootCommentId), t])
+      )
+
+      let resolvedCount = 0
+      for (const thread of state.threads) {
+        const reviewThread = byRootComment.get(thread.id)
+        if (!reviewThread) {
+          continue
+        }
+
+        thread.is_outdated = reviewThread.isOutdated || undefined
+
+        if (reviewThread.isResolved && thread.status !== 'RESOLVED') {
+          core.info(
+            `Thread ${thread.id} was resolved on GitHub${reviewThread.resolvedBy ? ` by ${reviewThread.resolvedBy}` : ''}, marking as RESOLVED`
+          )
+          thread.status = 'RESOLVED'
+          resolvedCount++
+        }
+      }
+
+      const outdatedCount = state.threads.filter(
+        (t) => t.is_outdated && t.status !== 'RESOLVED'
+      ).length
+      core.info(
+        `Reconciled ${state.threads.length} threads with GitHub: ${resolvedCount} resolved on GitHub, ${outdatedCount} outdated`
+      )
+    } catch (error) {
+      core.warning(
+        `Failed to load review threads from GitHub, using comment-derived status: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Write the current state to the hidden state comment so the next run can
+   * restore it, including pass results, without re-parsing every comment.
+   * Failures are logged; the next run then falls back to a rebuild.
+   */
+  async persistState(): Promise<void> {
+    if (!this.currentState) {
+      return
+    }
+
+    const body = serializeStateComment(this.currentState)
+    if (!body) {
+      core.warning(
+        'Review state is too large for a comment, it will be rebuilt from comments on the next run'
+      )
+      return
+    }
+
+    if (body === this.persistedStateBody) {
+      return
+    }
+
+    const { owner, repo, prNumber } = this.config.github
+
+    try {
+      if (this.stateCommentId) {
+        await this.octokit.issues.updateComment({
+          owner,
+          repo,
+          comment_id: this.stateCommentId,
+          body
+        })
+      } else {
+        const response = await this.octokit.issues.createComment({
+          owner,
+          repo,
+          issue_number: prNumber,
+          body
+        })
+        this.stateCommentId = response.data.id
+      }
+
+      this.persistedStateBody = body
+      core.debug(`Persisted review state to comment ${this.stateCommentId}`)
+    } catch (error) {
+      core.warning(
+        `Failed to persist review state: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Load the state from the hidden state comment. Returns null when the
+   * comment is missing, corrupt or cannot be migrated, in which case the state
+   * is rebuilt from review comments.
+   */
+  private async loadPersistedState(): Promise<ProcessState | null> {
+    const { owner, repo, prNumber } = this.config.github
+
+    try {
+      const comments = await this.octokit.paginate(
+        this.octokit.issues.listComments,
+        {
+          owner,
+          repo,
+          issue_number: prNumber,
+          per_page: 100
+        }
+      )
+
+      // Only trust state written by the bot to prevent spoofing
+      const stateComment = comments.find(
+        (comment) =>
+          isStateComment(comment.body) &&
+          BOT_USERS.includes(comment.user?.login || '')
+      )
+
+      if (!stateComment?.body) {
+        core.debug('No persisted review state found')
+        return null
+      }
+
+      // Keep the comment ID so a corrupt state is overwritten, not duplicated
+      this.stateCommentId = stateComment.id
+
+      const state = parseStateComment(stateComment.body)
+      if (state.prNumber !== prNumber) {
+        core.warning(
+          `Persisted review state belongs to PR #${state.prNumber}, rebuilding from comments`
+        )
+        return null
+      }
+
+      this.persistedStateBody = stateComment.body
+      core.info(
+        `Restored state with ${state.threads.length} threads and ${state.passes.length} passes from comment ${stateComment.id}`
+      )
+
+      return state
+    } catch (error) {
+      core.warning(
+        `Failed to load persisted review state, rebuilding from comments: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return null
+    }
   }
 
   async updateThreadStatus(
@@ -414,6 +662,33 @@ Respond with ONLY "true" if this is a concession, or "false" if it is not.`
     this.updateState(state)
   }
 
+  /**
+   * Replace placeholder thread IDs of batched review comments with the IDs of
+   * the posted comments. Threads whose comment was never posted are dropped.
+   */
+  async remapThreadIds(mapping: Map<string, string>): Promise<void> {
+    const state = await this.getOrCreateState()
+
+    state.threads = state.threads.filter((thread) => {
+      if (!isPendingCommentId(thread.id)) {
+        return true
+      }
+
+      const commentId = mapping.get(thread.id)
+      if (!commentId) {
+        core.warning(
+          `Dropping thread for ${thread.file}:${thread.line} - comment was not posted`
+        )
+        return false
+      }
+
+      thread.id = commentId
+      return true
+    })
+
+    this.updateState(state)
+  }
+
   async recordPassCompletion(passResult: PassResult): Promise<void> {
     const state = await this.getOrCreateState()
 
@@ -427,6 +702,17 @@ Respond with ONLY "true" if this is a concession, or "false" if it is not.`
     }
 
     this.updateState(state)
+    await this.persistState()
+  }
+
+  /**
+   * Record the head commit a completed review covered, so the next run knows
+   * what changed since
+   */
+  async recordReviewedCommit(sha: string): Promise<void> {
+    const state = await this.getOrCreateState()
+    state.lastCommitSha = sha
+    this.updateState(state)
   }
 
   async fetchDeveloperReplies(threadId: string): Promise<
@@ -437,21 +723,10 @@ Respond with ONLY "true" if this is a concession, or "false" if it is not.`
     }>
   > {
     try {
-      const { owner, repo, prNumber } = this.config.github
-
-      const comments = await this.octokit.pulls.listReviewComments({
-        owner,
-        repo,
-        pull_number: prNumber,
-        per_page: 100
-      })
+      const comments = await this.reviewComments.getReplies(threadId)
 
-      const replies = comments.data
-        .filter(
-          (comment) =>
-            comment.in_reply_to_id === Number(threadId) &&
-            !BOT_USERS.includes(comment.user?.login || '')
-        )
+      const replies = comments
+        .filter((comment) => !BOT_USERS.includes(comment.user?.login || ''))
         .map((comment) => ({
           author: comment.user?.login || 'unknown',
           body: comment.body,
@@ -580,20 +855,29 @@ Respond with ONLY one word: acknowledgment, dispute, question, or out_of_scope`
     return threadsWithReplies
   }
 
+  /**
+   * Find an unresolved thread on the same side of the same file whose line
+   * range overlaps the given range and reports a similar finding
+   */
   findDuplicateThread(
     file: string,
-    line: number,
+    range: CommentRange,
     finding: string
   ): ReviewThread | null {
     if (!this.currentState) {
       return null
     }
 
+    const side = range.side ?? 'RIGHT'
+    const start = range.startLine ?? range.line
+
     return (
       this.currentState.threads.find(
         (t) =>
           t.file === file &&
-          t.line === line &&
+          (t.side ?? 'RIGHT') === side &&
+          (t.start_line ?? t.line) <= range.line &&
+          start <= t.line &&
           t.status !== 'RESOLVED' &&
           this.isSimilarFinding(t.assessment.finding, finding)
       ) || null
@@ -0,0 +1,179 @@
+import { gunzipSync, gzipSync } from 'node:zlib'
+
+import { z } from 'zod'
+
+import { FINDING_CATEGORIES } from '../config/constants.js'
+import { type ProcessState, StateError } from './manager.js'
+
+/**
+ * Current version of the persisted ProcessState shape. Bump it whenever the
+ * shape changes and register a migration from the previous version.
+ */
+export const STATE_SCHEMA_VERSION = 1
+
+export const STATE_COMMENT_MARKER = '<!-- rmcoc-state -->'
+
+/**
+ * GitHub rejects comment bodies longer than 65536 characters
+ */
+const MAX_COMMENT_LENGTH = 65536
+
+const STATE_DATA_PATTERN = /<!-- rmcoc-state-data (\S+) -->/
+
+/**
+ * Upgrades a state of version N to version N + 1
+ */
+export type StateMigration = (state: Record<string, unknown>) => unknown
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+export const STATE_MIGRATIONS: Record<number, StateMigration> = {}
+
+const reviewThreadSchema = z.object({
+  id: z.string(),
+  file: z.string(),
+  line: z.number(),
+  start_line: z.number().optional(),
+  side: z.enum(['LEFT', 'RIGHT']).optional(),
+  status: z.enum(['PENDING', 'RESOLVED', 'DISPUTED', 'ESCALATED']),
+  score: z.number(),
+  assessment: z.object({
+    finding: z.string(),
+    assessment: z.string(),
+    score: z.number(),
+    category: z.enum(FINDING_CATEGORIES).optional(),
+    tags: z.array(z.string()).optional(),
+    ruleRef: z.string().optional()
+  }),
+  original_comment: z.object({
+    author: z.string(),
+    body: z.string(),
+    timestamp: z.string()
+  }),
+  developer_replies: z
+    .array(
+      z.object({
+        author: z.string(),
+        body: z.string(),
+        timestamp: z.string()
+      })
+    )
+    .optional(),
+  escalated_at: z.string().optional(),
+  is_outdated: z.boolean().optional(),
+  pass: z.number().optional(),
+  anchor_sha: z.string().optional()
+})
+
+const processStateSchema = z.object({
+  version: z.literal(STATE_SCHEMA_VERSION),
+  prNumber: z.number(),
+  lastCommitSha: z.string(),
+  threads: z.array(reviewThreadSchema),
+  passes: z.array(
+    z.object({
+      passNumber: z.number(),
+      completed: z.boolean(),
+      hasBlockingIssues: z.boolean()
+    })
+  ),
+  metadata: z.object({
+    created_at: z.string(),
+    updated_at: z.string()
+  })
+})
+
+/**
+ * Render a state as the body of the hidden state comment. The state is
+ * gzipped and base64 encoded to stay well below GitHub's comment size limit.
+ * Returns null when the state does not fit in a comment.
+ */
+export function serializeStateComment(state: ProcessState): string | null {
+  const data = gzipSync(JSON.stringify(state)).toString('base64')
+
+  const body = [
+    STATE_COMMENT_MARKER,
+    `<!-- rmcoc-state-data ${data} -->`,
+    `_Review state for rmc-oc (schema v${state.version}). Do not edit this comment._`
+  ].join('\n')
+
+  return body.length <= MAX_COMMENT_LENGTH ? body : null
+}
+
+export function isStateComment(body: string | undefined | null): boolean {
+  return body?.startsWith(STATE_COMMENT_MARKER) ?? false
+}
+
+/**
+ * Decode the state from a state comment body, migrating older versions to
+ * STATE_SCHEMA_VERSION. Throws when the comment is corrupt, from a newer
+ * version, or cannot be migrated.
+ */
+export function parseStateComment(body: string): ProcessState {
+  const match = STATE_DATA_PATTERN.exec(body)
+  if (!match?.[1]) {
+    throw new StateError('State comment has no state data')
+  }
+
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(
+      gunzipSync(Buffer.from(match[1], 'base64')).toString('utf8')
+    )
+  } catch (error) {
+    throw new StateError(
+      `Failed to decode state data: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const result = processStateSchema.safeParse(migrateState(decoded))
+  if (!result.success) {
+    throw new StateError(`Invalid state data: ${result.error.message}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Apply migrations until the state reaches STATE_SCHEMA_VERSION
+ */
+export function migrateState(
+  state: unknown,
+  migrations: Record<number, StateMigration> = STATE_MIGRATIONS
+): unknown {
+  let current = state
+
+  for (;;) {
+    if (typeof current !== 'object' || current === null) {
+      throw new StateError('State data is not an object')
+    }
+
+    const version = (current as Record<string, unknown>).version
+    if (typeof version !== 'number') {
+      throw new StateError('State data has no version')
+    }
+    if (version === STATE_SCHEMA_VERSION) {
+      return current
+    }
+    if (version > STATE_SCHEMA_VERSION) {
+      throw new StateError(
+        `State schema v${version} is newer than supported v${STATE_SCHEMA_VERSION}`
+      )
+    }
+
+    const migration = migrations[version]
+    if (!migration) {
+      throw new StateError(`No migration from state schema v${version}`)
+    }
+
+    current = migration(current as Record<string, unknown>)
+
+    const migratedVersion = (current as Record<string, unknown> | null)?.version
+    if (migratedVersion !== version + 1) {
+      throw new StateError(
+        `Migration from state schema v${version} produced v${String(migratedVersion)}`
+      )
+    }
+  }
+}
@@ -7,6 +7,7 @@
  * All state decisions MUST use rmcoc blocks - never raw text parsing.
  */
 
+import type { FindingCategory } from '../config/constants.js'
 import { logger } from '../utils/logger.js'
 
 /**
@@ -18,6 +19,7 @@ export type RmcocBlockType =
   | 'manual-pr-review'
   | 'review-finding'
   | 'dispute-resolution'
+  | 'auto-resolution'
 
 /**
  * Base interface for all rmcoc blocks
@@ -43,6 +45,8 @@ export type QuestionAnswerRmcocBlock = BaseRmcocBlock & {
   type: 'question-answer'
   reply_to_comment_id: string
   answered_at: string
+  /** Model that wrote the answer */
+  model?: string
 }
 
 /**
@@ -67,8 +71,13 @@ export type ReviewFindingRmcocBlock = BaseRmcocBlock & {
     finding: string
     assessment: string
     score: number
+    category?: FindingCategory
+    tags?: string[]
+    ruleRef?: string
   }
   created_at?: string
+  /** Model that raised the finding */
+  model?: string
 }
 
 /**
@@ -83,6 +92,21 @@ export type DisputeResolutionRmcocBlock = BaseRmcocBlock & {
   reason: string
 }
 
+/**
+ * rmcoc block for threads resolved without the agent because the code they
+ * referred to no longer exists
+ */
+export type AutoResolutionRmcocBlock = BaseRmcocBlock & {
+  type: 'auto-resolution'
+  reply_to_thread_id: string
+  status: 'RESOLVED'
+  resolution: 'line-deleted' | 'file-deleted'
+  base_sha: string
+  head_sha: string
+  resolved_at: string
+  reason: string
+}
+
 /**
  * Union of all rmcoc block types
  */
@@ -92,6 +116,7 @@ export type RmcocBlock =
   | ManualReviewRmcocBlock
   | ReviewFindingRmcocBlock
   | DisputeResolutionRmcocBlock
+  | AutoResolutionRmcocBlock
 
 /**
  * Extract rmcoc block from a comment body
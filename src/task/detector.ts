@@ -8,7 +8,8 @@
  */
 
 import { BOT_MENTIONS, BOT_USERS } from '../config/constants.js'
-import type { GitHubAPI } from '../github/api.js'
+import { type GitHubAPI, hasNewDeveloperReply } from '../github/api.js'
+import type { ReviewComment } from '../github/review-comments.js'
 import type { LLMClient } from '../opencode/llm-client.js'
 import type { ReviewConfig } from '../execution/types.js'
 import type { StateManager } from '../state/manager.js'
@@ -187,53 +188,57 @@ export class TaskDetector {
       (t) => t.status === 'PENDING' || t.status === 'DISPUTED'
     )
 
+    if (activeThreads.length === 0) {
+      return disputes
+    }
+
+    // One lookup for all threads instead of two requests per thread
+    let commentsByThread: Map<string, ReviewComment[]>
+    try {
+      commentsByThread = await githubApi.getThreadsComments(
+        activeThreads.map((t) => t.id)
+      )
+    } catch (error) {
+      logger.warning(
+        `Error checking threads for developer replies: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return disputes
+    }
+
     for (const thread of activeThreads) {
-      try {
-        // Check if there are new developer replies
-        const hasNewReply = await githubApi.hasNewDeveloperReply(thread.id)
-
-        if (hasNewReply) {
-          // Get the thread comments to find the latest reply
-          const comments = await githubApi.getThreadComments(thread.id)
-
-          // Find latest developer reply
-          const developerReplies = comments
-            .filter((c) => !BOT_USERS.includes(c.user?.login || ''))
-            .sort(
-              (a, b) =>
-                new Date(b.created_at).getTime() -
-                new Date(a.created_at).getTime()
-            )
-
-          const latestReply = developerReplies[0]
-          if (latestReply) {
-            disputes.push({
-              type: 'dispute-resolution',
-              priority: 1,
-              disputeContext: {
-                threadId: thread.id,
-                replyCommentId: String(latestReply.id),
-                replyBody: latestReply.body || '',
-                replyAuthor: latestReply.user?.login || 'unknown',
-                file: thread.file,
-                line: thread.line
-              }
-            })
+      const comments = commentsByThread.get(thread.id) ?? []
+
+      if (comments.length === 0) {
+        // Thread may have been deleted
+        logger.warning(`Thread ${thread.id} appears to be deleted, skipping`)
+        continue
+      }
+
+      if (!hasNewDeveloperReply(comments)) {
+        continue
+      }
+
+      // Find latest developer reply
+      const latestReply = comments
+        .filter((c) => !BOT_USERS.includes(c.user?.login || ''))
+        .sort(
+          (a, b) =>
+            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        )[0]
+
+      if (latestReply) {
+        disputes.push({
+          type: 'dispute-resolution',
+          priority: 1,
+          disputeContext: {
+            threadId: thread.id,
+            replyCommentId: String(latestReply.id),
+            replyBody: latestReply.body || '',
+            replyAuthor: latestReply.user?.login || 'unknown',
+            file: thread.file,
+            line: thread.line
           }
-        }
-      } catch (error) {
-        // Thread may have been deleted or is inaccessible
-        // Log and continue with other threads
-        const errorMessage =
-          error instanceof Error ? error.message : String(error)
-        if (
-          errorMessage.includes('404') ||
-          errorMessage.includes('Not Found')
-        ) {
-          logger.warning(`Thread ${thread.id} appears to be deleted, skipping`)
-        } else {
-          logger.warning(`Error checking thread ${thread.id}: ${errorMessage}`)
-        }
+        })
       }
     }
 
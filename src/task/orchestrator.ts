@@ -3,9 +3,10 @@ import * as core from '@actions/core'
 import type { GitHubAPI } from '../github/api.js'
 import type { LLMClient } from '../opencode/llm-client.js'
 import type { ReviewExecutor } from '../execution/orchestrator.js'
-import type { ReviewConfig } from '../execution/types.js'
+import type { ReviewConfig, ReviewOutput } from '../execution/types.js'
 import type { StateManager } from '../state/manager.js'
 import { logger } from '../utils/logger.js'
+import { getBudgetExceededReason } from '../utils/usage.js'
 import { TaskDetector } from './detector.js'
 import type {
   DisputeTask,
@@ -17,15 +18,21 @@ import type {
   TaskResult
 } from './types.js'
 
+/**
+ * Prepares the review executor once tasks are known to be pending, so runs
+ * without tasks skip the provider preflight and the OpenCode server
+ */
+export type PrepareExecution = () => Promise<ReviewExecutor>
+
 export class TaskOrchestrator {
   private taskDetector: TaskDetector
 
   constructor(
     private config: ReviewConfig,
     private githubApi: GitHubAPI,
-    private reviewExecutor: ReviewExecutor,
     private stateManager: StateManager,
-    llmClient: LLMClient
+    llmClient: LLMClient,
+    private prepareExecution: PrepareExecution
   ) {
     this.taskDetector = new TaskDetector(llmClient, stateManager)
   }
@@ -50,14 +57,39 @@ export class TaskOrchestrator {
         }
       }
 
+      const reviewExecutor = await this.prepareExecution()
+
       const results: TaskResult[] = []
       let hasBlockingIssues = false
       let reviewCompleted = false
       let hadAutoReview = false
+      let autoReviewCheckRunCompleted = false
       let hadManualReview = false
+      let budgetExceeded: string | undefined
+      let skippedTasks = 0
+      let skippedAutoReview = false
+
+      for (const [index, task] of plan.tasks.entries()) {
+        const exceededReason = getBudgetExceededReason()
+        if (exceededReason) {
+          budgetExceeded = exceededReason
+          skippedTasks = plan.tasks.length - index
+          // The auto review runs last, so it is the task most likely skipped
+          skippedAutoReview = plan.tasks
+            .slice(index)
+            .some((t) => t.type === 'full-review' && t.affectsMergeGate)
+          core.warning(
+            `Usage budget exhausted (${exceededReason}) - skipping ${skippedTasks} remaining task(s): ${this.summarizeTasks({ ...plan, tasks: plan.tasks.slice(index) })}`
+          )
+          break
+        }
 
-      for (const task of plan.tasks) {
-        const result = await this.executeTask(task)
+        const startedAt = Date.now()
+        const result = {
+          ...(await this.executeTask(task, reviewExecutor)),
+          durationMs: Date.now() - startedAt,
+          model: reviewExecutor.getActiveModel()
+        }
         results.push(result)
 
         if (result.blockingIssues > 0) {
@@ -70,19 +102,26 @@ export class TaskOrchestrator {
           // This handles both fresh auto reviews and resumed cancelled ones
           if (task.affectsMergeGate) {
             hadAutoReview = true
+            autoReviewCheckRunCompleted = result.checkRunCompleted ?? false
           } else {
             hadManualReview = true
           }
         }
       }
 
+      await this.stateManager.persistState()
+
       return {
         results,
         hasBlockingIssues,
         totalTasks: results.length,
         reviewCompleted,
         hadAutoReview,
-        hadManualReview
+        autoReviewCheckRunCompleted,
+        hadManualReview,
+        budgetExceeded,
+        skippedTasks,
+        skippedAutoReview
       }
     })
   }
@@ -101,15 +140,18 @@ export class TaskOrchestrator {
     }
   }
 
-  private async executeTask(task: Task): Promise<TaskResult> {
+  private async executeTask(
+    task: Task,
+    reviewExecutor: ReviewExecutor
+  ): Promise<TaskResult> {
     try {
       switch (task.type) {
         case 'dispute-resolution':
-          return await this.executeDisputeTask(task)
+          return await this.executeDisputeTask(task, reviewExecutor)
         case 'question-answering':
-          return await this.executeQuestionTask(task)
+          return await this.executeQuestionTask(task, reviewExecutor)
         case 'full-review':
-          return await this.executeReviewTask(task)
+          return await this.executeReviewTask(task, reviewExecutor)
       }
     } catch (error) {
       core.error(`Task execution failed: ${error}`)
@@ -123,14 +165,15 @@ export class TaskOrchestrator {
     }
   }
 
-  private async executeDisputeTask(task: DisputeTask): Promise<TaskResult> {
+  private async executeDisputeTask(
+    task: DisputeTask,
+    reviewExecutor: ReviewExecutor
+  ): Promise<TaskResult> {
     return await logger.group(
       `Executing Dispute Resolution (thread ${task.disputeContext.threadId})`,
       async () => {
         try {
-          await this.reviewExecutor.executeDisputeResolution(
-            task.disputeContext
-          )
+          await reviewExecutor.executeDisputeResolution(task.disputeContext)
 
           return {
             type: 'dispute-resolution',
@@ -147,7 +190,10 @@ export class TaskOrchestrator {
     )
   }
 
-  private async executeQuestionTask(task: QuestionTask): Promise<TaskResult> {
+  private async executeQuestionTask(
+    task: QuestionTask,
+    reviewExecutor: ReviewExecutor
+  ): Promise<TaskResult> {
     return await logger.group(
       `Executing Question Answering (comment ${task.questionContext.commentId})`,
       async () => {
@@ -165,7 +211,7 @@ export class TaskOrchestrator {
           )
 
           // Pass the question context and conversation history to the orchestrator
-          const answer = await this.reviewExecutor.executeQuestionAnswering(
+          const answer = await reviewExecutor.executeQuestionAnswering(
             task.questionContext,
             task.conversationHistory
           )
@@ -173,7 +219,8 @@ export class TaskOrchestrator {
           // Post the answer as a reply to the original comment
           const formattedAnswer = this.formatQuestionAnswer(
             task.questionContext,
-            answer
+            answer,
+            reviewExecutor.getActiveModel()
           )
           await this.githubApi.replyToIssueComment(
             task.questionContext.commentId,
@@ -205,13 +252,15 @@ export class TaskOrchestrator {
 
   private formatQuestionAnswer(
     context: QuestionTask['questionContext'],
-    answer: string
+    answer: string,
+    model: string
   ): string {
     const rmcocBlock = {
       type: 'question-answer',
       reply_to_comment_id: context.commentId,
       question_hash: context.questionHash,
-      answered_at: new Date().toISOString()
+      answered_at: new Date().toISOString(),
+      model
     }
 
     return `${answer}
@@ -224,7 +273,10 @@ ${JSON.stringify(rmcocBlock, null, 2)}
 \`\`\``
   }
 
-  private async executeReviewTask(task: ReviewTask): Promise<TaskResult> {
+  private async executeReviewTask(
+    task: ReviewTask,
+    reviewExecutor: ReviewExecutor
+  ): Promise<TaskResult> {
     return await logger.group(
       `Executing Full Review (${task.isManual ? 'manual' : 'auto'})`,
       async () => {
@@ -259,7 +311,10 @@ ${JSON.stringify(rmcocBlock, null, 2)}
             )
           }
 
-          const reviewOutput = await this.reviewExecutor.executeReview()
+          const reviewOutput = await reviewExecutor.executeReview({
+            affectsMergeGate: task.affectsMergeGate,
+            incremental: task.triggeredBy === 'synchronize'
+          })
 
           if (task.isManual && task.triggerCommentId) {
             await this.stateManager.markManualReviewCompleted(
@@ -281,6 +336,14 @@ ${JSON.stringify(rmcocBlock, null, 2)}
             await this.stateManager.clearAutoReviewTrigger()
           }
 
+          if (
+            this.config.reporting.pullRequestReview &&
+            task.affectsMergeGate &&
+            reviewOutput.status !== 'failed'
+          ) {
+            await this.submitPullRequestReview(reviewOutput)
+          }
+
           // A review is successful if it completed, regardless of whether it found
           // blocking issues. The status 'has_blocking_issues' means the review ran
           // successfully but found problems - that's still a successful execution.
@@ -293,7 +356,8 @@ ${JSON.stringify(rmcocBlock, null, 2)}
             type: 'full-review',
             success: reviewSucceeded,
             issuesFound: reviewOutput.issuesFound,
-            blockingIssues: reviewOutput.blockingIssues
+            blockingIssues: reviewOutput.blockingIssues,
+            checkRunCompleted: reviewOutput.checkRunCompleted
           }
         } catch (error) {
           throw new Error(
@@ -304,6 +368,96 @@ ${JSON.stringify(rmcocBlock, null, 2)}
     )
   }
 
+  /**
+   * Submit a formal pull request review reflecting the merge gate outcome so
+   * branch protection "required reviews" can rely on the bot. The review is
+   * submitted on the reviewed commit and skipped when the head moved on since,
+   * so the bot never approves code it has not seen. When a run is clean,
+   * earlier change requests from the bot are dismissed. Failures are logged
+   * and do not fail the review task.
+   */
+  private async submitPullRequestReview(
+    reviewOutput: ReviewOutput
+  ): Promise<void> {
+    try {
+      const headSha = reviewOutput.reviewedSha
+      if (!headSha) {
+        core.warning(
+          'Reviewed commit unknown, skipping the pull request review'
+        )
+        return
+      }
+
+      const currentSha = await this.githubApi.getCurrentSHA()
+      if (currentSha !== headSha) {
+        core.info(
+          `Pull request head moved from ${headSha.substring(0, 7)} to ${currentSha.substring(0, 7)} during the review, skipping the pull request review`
+        )
+        return
+      }
+
+      const ownReviews = await this.githubApi.getOwnPullRequestReviews()
+      const hasBlocking = reviewOutput.status === 'has_blocking_issues'
+      const event = hasBlocking ? 'REQUEST_CHANGES' : 'APPROVE'
+      const expectedState = hasBlocking ? 'CHANGES_REQUESTED' : 'APPROVED'
+
+      if (!hasBlocking) {
+        for (const review of ownReviews) {
+          if (review.state === 'CHANGES_REQUESTED') {
+            await this.githubApi.dismissPullRequestReview(
+              String(review.id),
+              'Superseded: a later review found no blocking issues.'
+            )
+          }
+        }
+      }
+
+      // Batched comment reviews come from the same account, so only the
+      // bot's verdicts count
+      const verdicts = ownReviews.filter(
+        (r) => r.state === 'APPROVED' || r.state === 'CHANGES_REQUESTED'
+      )
+      const latestReview = verdicts[verdicts.length - 1]
+      if (
+        latestReview &&
+        latestReview.state === expectedState &&
+        latestReview.commit_id === headSha
+      ) {
+        core.info(`Pull request review already ${expectedState} for ${headSha}`)
+        return
+      }
+
+      await this.githubApi.submitPullRequestReview(
+        event,
+        this.formatPullRequestReviewBody(reviewOutput),
+        headSha
+      )
+    } catch (error) {
+      core.warning(
+        `Failed to submit pull request review: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  private formatPullRequestReviewBody(reviewOutput: ReviewOutput): string {
+    if (reviewOutput.status === 'has_blocking_issues') {
+      return (
+        `**Changes requested.** Found ${reviewOutput.issuesFound} issue(s), ` +
+        `including ${reviewOutput.blockingIssues} blocking issue(s). ` +
+        `Resolve or dispute the blocking review comments to unblock this PR.`
+      )
+    }
+
+    if (reviewOutput.issuesFound > 0) {
+      return (
+        `**Approved.** No blocking issues, ${reviewOutput.issuesFound} ` +
+        `non-blocking issue(s) remain open in the review comments.`
+      )
+    }
+
+    return '**Approved.** No issues found.'
+  }
+
   private formatManualReviewEndComment(reviewOutput: {
     status: string
     issuesFound: number
@@ -139,6 +139,12 @@ export type TaskResult = {
   blockingIssues: number
   /** Error message if task failed */
   error?: string
+  /** Wall-clock time the task took */
+  durationMs?: number
+  /** Model in use when the task finished, after any fallbacks */
+  model?: string
+  /** Whether the review's check run was completed with its conclusion */
+  checkRunCompleted?: boolean
 }
 
 /**
@@ -155,6 +161,14 @@ export type ExecutionResult = {
   reviewCompleted: boolean
   /** Whether an auto review (PR event triggered) was executed */
   hadAutoReview: boolean
+  /** Whether the auto review's check run completed and carries the gate */
+  autoReviewCheckRunCompleted?: boolean
   /** Whether a manual review (@ mention triggered) was executed */
   hadManualReview: boolean
+  /** Why remaining tasks were skipped, if the usage budget ran out */
+  budgetExceeded?: string
+  /** Number of tasks skipped because the usage budget ran out */
+  skippedTasks?: number
+  /** Whether an auto review was skipped, leaving the merge gate unevaluated */
+  skippedAutoReview?: boolean
 }
@@ -0,0 +1,102 @@
+import type { DiffSide } from '../github/api.js'
+import type { DiffIndex, LineRange } from '../github/diff.js'
+
+/**
+ * How far a line outside the diff may be moved to reach the edge of a hunk
+ */
+export const MAX_SNAP_DISTANCE = 3
+
+export type CommentAnchorRequest = {
+  startLine?: number
+  line: number
+  side?: DiffSide
+}
+
+export type ResolvedCommentAnchor =
+  | {
+      valid: true
+      startLine?: number
+      line: number
+      /** Original line when the comment was moved onto the diff */
+      snappedFrom?: number
+    }
+  | { valid: false; reason: string; commentableRanges: LineRange[] }
+
+/**
+ * Validate a comment location against the pull request diff.
+ *
+ * GitHub only accepts review comments on lines inside a diff hunk. A line
+ * just outside the diff is snapped to the nearest hunk edge; anything
+ * further away is rejected with the ranges that can be commented on, so the
+ * agent can pick a valid line instead of the comment silently degrading to a
+ * PR-level comment.
+ */
+export function resolveCommentAnchor(
+  file: string,
+  request: CommentAnchorRequest,
+  diffIndex: DiffIndex
+): ResolvedCommentAnchor {
+  const side = request.side ?? 'RIGHT'
+
+  if (!diffIndex.hasFile(file)) {
+    return {
+      valid: false,
+      reason: `${file} is not changed in this PR`,
+      commentableRanges: []
+    }
+  }
+
+  // Without a patch (binary or very large diff) lines cannot be validated
+  if (!diffIndex.hasPatch(file)) {
+    return { valid: true, startLine: request.startLine, line: request.line }
+  }
+
+  let line = request.line
+  let snappedFrom: number | undefined
+
+  if (!diffIndex.findHunk(file, line, side)) {
+    const nearest = diffIndex.findNearestCommentableLine(
+      file,
+      line,
+      MAX_SNAP_DISTANCE,
+      side
+    )
+
+    if (nearest === null) {
+      return {
+        valid: false,
+        reason: `Line ${line} of ${file} is not part of the diff`,
+        commentableRanges: diffIndex.getCommentableRanges(file, side)
+      }
+    }
+
+    snappedFrom = line
+    line = nearest
+  }
+
+  const hunk = diffIndex.findHunk(file, line, side)
+  const hunkStart = side === 'RIGHT' ? hunk?.newStart : hunk?.oldStart
+
+  // A range must stay within the hunk of its last line
+  let startLine = request.startLine
+  if (startLine !== undefined && hunkStart !== undefined) {
+    startLine = Math.min(Math.max(startLine, hunkStart), line)
+  }
+
+  return {
+    valid: true,
+    startLine: startLine === line ? undefined : startLine,
+    line,
+    snappedFrom
+  }
+}
+
+export function formatLineRanges(ranges: LineRange[]): string {
+  return ranges
+    .map((r) =>
+      r.startLine === r.endLine
+        ? `${r.startLine}`
+        : `${r.startLine}-${r.endLine}`
+    )
+    .join(', ')
+}
@@ -1,7 +1,9 @@
 import { initTRPC } from '@trpc/server'
 import superjson from 'superjson'
 
-import type { GitHubAPI } from '../github/api.js'
+import { resolveFindingScoring } from '../config/scoring.js'
+import { type GitHubAPI, formatLineRange } from '../github/api.js'
+import type { DiffIndex } from '../github/diff.js'
 import type { LLMClient } from '../opencode/llm-client.js'
 import type { ReviewExecutor } from '../execution/orchestrator.js'
 import { logger } from '../utils/logger.js'
@@ -14,6 +16,8 @@ import {
   resolveThreadSchema,
   submitPassResultsSchema
 } from './schemas.js'
+import { formatLineRanges, resolveCommentAnchor } from './comment-anchor.js'
+import { prepareSuggestion } from './suggestion.js'
 
 export type TRPCContext = {
   executor: ReviewExecutor
@@ -48,36 +52,104 @@ export const appRouter = router({
           toolName: 'github_post_review_comment',
           parameters: {
             file: input.file,
+            startLine: input.startLine,
             line: input.line,
+            side: input.side,
             score: input.assessment.score
           },
           sessionId: 'trpc-session'
         })
 
+        const location = formatLineRange(
+          input.file,
+          input.line,
+          input.startLine
+        )
+
         logger.debug(
-          `tRPC: github.postReviewComment called for ${input.file}:${input.line} (score: ${input.assessment.score})`
+          `tRPC: github.postReviewComment called for ${location} (score: ${input.assessment.score})`
         )
 
+        if (input.startLine !== undefined && input.startLine > input.line) {
+          return {
+            filtered: true,
+            reason: `Invalid range: startLine ${input.startLine} is after line ${input.line}`
+          }
+        }
+
         const config = ctx.executor.getConfig()
-        if (input.assessment.score < config.scoring.problemThreshold) {
+        const pathScoring = resolveFindingScoring(
+          config.scoring,
+          input.file,
+          input.assessment.category
+        )
+        if (pathScoring.ignored) {
+          logger.info(`Comment filtered: ${input.file} is excluded from review`)
+          return {
+            filtered: true,
+            reason: `File ${input.file} is excluded from review by path rules`
+          }
+        }
+
+        if (input.assessment.score < pathScoring.problemThreshold) {
           logger.info(
-            `Comment filtered: score ${input.assessment.score} below threshold ${config.scoring.problemThreshold}`
+            `Comment filtered: ${input.assessment.category} score ${input.assessment.score} below threshold ${pathScoring.problemThreshold} for ${input.file}`
           )
           return {
             filtered: true,
-            reason: `Score ${input.assessment.score} below threshold ${config.scoring.problemThreshold}`
+            reason: `Score ${input.assessment.score} below the ${input.assessment.category} threshold ${pathScoring.problemThreshold}`
+          }
+        }
+
+        let diffIndex: DiffIndex | null = null
+        try {
+          diffIndex = await ctx.executor.getDiffIndex()
+        } catch (error) {
+          logger.warning(
+            `Failed to load PR diff, skipping line validation: ${error instanceof Error ? error.message : String(error)}`
+          )
+        }
+
+        let anchor: { startLine?: number; line: number } = {
+          startLine:
+            input.startLine === input.line ? undefined : input.startLine,
+          line: input.line
+        }
+        let snappedFrom: number | undefined
+
+        if (diffIndex) {
+          const resolved = resolveCommentAnchor(input.file, input, diffIndex)
+
+          if (!resolved.valid) {
+            logger.info(`Comment rejected: ${resolved.reason}`)
+            return {
+              filtered: true,
+              reason:
+                resolved.commentableRanges.length > 0
+                  ? `${resolved.reason}. Commentable lines in ${input.file}: ${formatLineRanges(resolved.commentableRanges)}`
+                  : `${resolved.reason}. Only files changed in this PR can be commented on`,
+              commentableRanges: resolved.commentableRanges
+            }
+          }
+
+          anchor = { startLine: resolved.startLine, line: resolved.line }
+          snappedFrom = resolved.snappedFrom
+          if (snappedFrom !== undefined) {
+            logger.info(
+              `Snapped comment on ${input.file} from line ${snappedFrom} to nearest changed line ${anchor.line}`
+            )
           }
         }
 
         const existingThread = ctx.executor.findDuplicateThread(
           input.file,
-          input.line,
+          { ...anchor, side: input.side },
           input.assessment.finding
         )
 
         if (existingThread) {
           logger.info(
-            `Comment deduplicated: existing thread ${existingThread.id} for ${input.file}:${input.line} with similar finding`
+            `Comment deduplicated: existing thread ${existingThread.id} overlaps ${location} with similar finding`
           )
           return {
             filtered: true,
@@ -104,18 +176,54 @@ export const appRouter = router({
           )
         }
 
-        const commentBody = `${input.body}\n\n---\n\`\`\`rmcoc\n${JSON.stringify(input.assessment, null, 2)}\n\`\`\``
+        let suggestionBlock = ''
+        let suggestionDropped: string | undefined
+        if (input.suggestedFix && !config.review.enableSuggestions) {
+          suggestionDropped = 'Suggestions are disabled for this repository'
+        } else if (input.suggestedFix && input.side === 'LEFT') {
+          suggestionDropped =
+            'Suggestion dropped: suggestions can only replace lines of the head version'
+        } else if (input.suggestedFix && !diffIndex) {
+          suggestionDropped =
+            'Suggestion dropped: the PR diff could not be loaded to validate it'
+        } else if (input.suggestedFix && diffIndex) {
+          const suggestion = prepareSuggestion(
+            input.file,
+            input.suggestedFix,
+            diffIndex
+          )
+
+          if (suggestion.valid) {
+            suggestionBlock = `\n\n${suggestion.block}`
+            anchor = { startLine: suggestion.startLine, line: suggestion.line }
+          } else {
+            suggestionDropped = `Suggestion dropped: ${suggestion.reason}`
+            logger.info(
+              `Suggestion for ${location} dropped: ${suggestion.reason}`
+            )
+          }
+        }
+
+        const rmcocBlock = {
+          ...input.assessment,
+          model: ctx.executor.getActiveModel()
+        }
+        const commentBody = `${input.body}${suggestionBlock}\n\n---\n\`\`\`rmcoc\n${JSON.stringify(rmcocBlock, null, 2)}\n\`\`\``
 
         const commentId = await ctx.github.postReviewComment({
           path: input.file,
-          line: input.line,
+          line: anchor.line,
+          startLine: anchor.startLine,
+          side: input.side,
           body: commentBody
         })
 
         await ctx.executor.addThread({
           id: commentId,
           file: input.file,
-          line: input.line,
+          line: anchor.line,
+          start_line: anchor.startLine,
+          side: input.side === 'LEFT' ? 'LEFT' : undefined,
           status: 'PENDING',
           score: input.assessment.score,
           assessment: input.assessment,
@@ -126,11 +234,15 @@ export const appRouter = router({
           }
         })
 
-        logger.info(`Posted comment on ${input.file}:${input.line}`)
+        logger.info(
+          `Posted comment on ${formatLineRange(input.file, anchor.line, anchor.startLine)}`
+        )
 
         return {
           filtered: false,
-          threadId: commentId
+          threadId: commentId,
+          snappedToLine: snappedFrom !== undefined ? anchor.line : undefined,
+          suggestionDropped
         }
       }),
 
@@ -308,6 +420,10 @@ export const appRouter = router({
           }
         }
 
+        // Submit the pass's comments before completing the pass so the
+        // next pass does not start queueing into the same review
+        await ctx.executor.submitPassReviewComments(input.passNumber)
+
         ctx.executor.recordPassCompletion({
           passNumber: input.passNumber,
           completed: true,
@@ -1,16 +1,49 @@
 import { z } from 'zod'
 
+import { FINDING_CATEGORIES } from '../config/constants.js'
+
 export const issueAssessmentSchema = z.object({
   finding: z.string().describe('Brief one-sentence description'),
   assessment: z.string().describe('Detailed analysis of impact'),
-  score: z.number().min(1).max(10).describe('Severity score 1-10')
+  score: z.number().min(1).max(10).describe('Severity score 1-10'),
+  category: z.enum(FINDING_CATEGORIES).describe('Kind of issue'),
+  tags: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Free-form labels, e.g. "sql-injection"'),
+  ruleRef: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('AGENTS.md rule the code violates')
+})
+
+export const suggestedFixSchema = z.object({
+  startLine: z.number().int().min(1).describe('First line to replace'),
+  endLine: z.number().int().min(1).describe('Last line to replace'),
+  replacement: z
+    .string()
+    .describe('Exact new content for the replaced lines, including indentation')
 })
 
 export const postReviewCommentSchema = z.object({
   file: z.string().describe('File path relative to repo root'),
-  line: z.number().describe('Line number in the file'),
+  line: z
+    .number()
+    .describe('Line number in the file (last line of a multi-line range)'),
+  startLine: z
+    .number()
+    .optional()
+    .describe('First line of a multi-line range, omit for single lines'),
+  side: z
+    .enum(['LEFT', 'RIGHT'])
+    .optional()
+    .describe('LEFT for deleted lines of the base version, RIGHT by default'),
   body: z.string().describe('Human-readable comment body'),
-  assessment: issueAssessmentSchema
+  assessment: issueAssessmentSchema,
+  suggestedFix: suggestedFixSchema
+    .optional()
+    .describe('Committable fix, only used when suggestions are enabled')
 })
 
 export const replyToThreadSchema = z.object({
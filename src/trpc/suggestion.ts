@@ -0,0 +1,74 @@
+import type { DiffIndex } from '../github/diff.js'
+
+export type SuggestedFix = {
+  startLine: number
+  endLine: number
+  replacement: string
+}
+
+export type PreparedSuggestion =
+  | {
+      valid: true
+      /** Rendered ```suggestion block to append to the comment body */
+      block: string
+      /** Comment anchor covering the replaced lines */
+      startLine?: number
+      line: number
+    }
+  | { valid: false; reason: string }
+
+/**
+ * Validate a suggested fix against the pull request diff and render it as a
+ * GitHub suggestion block.
+ *
+ * GitHub applies a suggestion to the lines the comment is anchored to, so the
+ * replaced range must lie entirely within a single diff hunk on the head side.
+ */
+export function prepareSuggestion(
+  file: string,
+  fix: SuggestedFix,
+  diffIndex: DiffIndex
+): PreparedSuggestion {
+  if (fix.endLine < fix.startLine) {
+    return {
+      valid: false,
+      reason: `end line ${fix.endLine} is before start line ${fix.startLine}`
+    }
+  }
+
+  if (!diffIndex.hasFile(file)) {
+    return { valid: false, reason: `${file} is not changed in this PR` }
+  }
+
+  const hunk = diffIndex.findHunk(file, fix.startLine)
+  if (!hunk || fix.endLine >= hunk.newStart + hunk.newLines) {
+    return {
+      valid: false,
+      reason: `lines ${fix.startLine}-${fix.endLine} of ${file} are not within a single diff hunk`
+    }
+  }
+
+  return {
+    valid: true,
+    block: formatSuggestionBlock(fix.replacement),
+    startLine: fix.startLine === fix.endLine ? undefined : fix.startLine,
+    line: fix.endLine
+  }
+}
+
+function formatSuggestionBlock(replacement: string): string {
+  // Use a longer fence when the replacement itself contains a code fence
+  const longestFence = Math.max(
+    0,
+    ...(replacement.match(/`{3,}/g) ?? []).map((fence) => fence.length)
+  )
+  const fence = '`'.repeat(Math.max(3, longestFence + 1))
+  const content = replacement.replace(/\r?\n$/, '')
+
+  // An empty suggestion deletes the lines
+  if (content === '') {
+    return `${fence}suggestion\n${fence}`
+  }
+
+  return `${fence}suggestion\n${content}\n${fence}`
+}
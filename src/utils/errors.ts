@@ -1,3 +1,5 @@
+import type { PreflightErrorCategory } from '../config/constants.js'
+
 export class ConfigurationError extends Error {
   constructor(message: string) {
     super(message)
@@ -35,3 +37,40 @@ export class OrchestratorError extends Error {
     this.name = 'OrchestratorError'
   }
 }
+
+export class PreflightError extends Error {
+  constructor(
+    message: string,
+    public category: PreflightErrorCategory
+  ) {
+    super(message)
+    this.name = 'PreflightError'
+  }
+}
+
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, null for errors reported in a successful response */
+    public status: number | null,
+    /** Wait requested by the server's Retry-After header */
+    public retryAfterMs: number | null = null
+  ) {
+    super(message)
+    this.name = 'LLMRequestError'
+  }
+}
+
+export class RequestBudgetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RequestBudgetError'
+  }
+}
+
+export class UsageBudgetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageBudgetError'
+  }
+}
@@ -1,9 +1,14 @@
 import vard, { PromptInjectionError } from '@andersmyrmel/vard'
 
 import { LLMClientImpl } from '../opencode/llm-client.js'
-import { delay } from './async.js'
+import type { ProviderConnection } from '../opencode/provider.js'
 import { logger } from './logger.js'
-import { sanitizeDelimiters } from './security.js'
+import { auditToolCall, sanitizeDelimiters } from './security.js'
+
+/**
+ * Tool name under which detections are recorded in the audit log
+ */
+export const INJECTION_DETECTION_AUDIT_NAME = 'prompt_injection_detection'
 
 export type InjectionDetectionResult = {
   isSuspicious: boolean
@@ -15,8 +20,10 @@ export type InjectionDetectionResult = {
 }
 
 export type PromptInjectionDetectorConfig = {
-  apiKey: string
+  connection: ProviderConnection
   verificationModel: string
+  /** Tried in order when the verification model fails or answers empty */
+  fallbackModels?: string[]
   enabled: boolean
 }
 
@@ -29,7 +36,6 @@ type VerificationResult = {
 }
 
 const VERIFICATION_MAX_ATTEMPTS = 3
-const VERIFICATION_RETRY_BASE_DELAY_MS = 1000
 
 const vardValidator = vard
   .moderate()
@@ -47,8 +53,10 @@ export class PromptInjectionDetector {
   private getVerificationClient(): LLMClientImpl {
     if (!this.verificationClient) {
       this.verificationClient = new LLMClientImpl({
-        apiKey: this.config.apiKey,
-        model: this.config.verificationModel
+        ...this.config.connection,
+        model: this.config.verificationModel,
+        fallbackModels: this.config.fallbackModels,
+        usageCategory: 'injection-verification'
       })
     }
 
@@ -100,6 +108,11 @@ export class PromptInjectionDetector {
         `CONFIRMED prompt injection attempt blocked. Threats: ${vardResult.detectedThreats.join(', ')}`
       )
       logger.error(`Blocked content preview: ${inputPreview}`)
+      this.auditDetection(
+        vardResult.detectedThreats,
+        'blocked',
+        'confirmed by verification model'
+      )
       logger.warning(
         'If this is a false positive, the model may go idle with nothing to review. ' +
           'Consider adjusting injection detection settings or the content that triggered this.'
@@ -128,6 +141,11 @@ export class PromptInjectionDetector {
         `Unable to verify suspicious content with LLM. Blocking content for safety. Model: ${verificationResult.model}, response: "${safeResponseForLog}"`
       )
       logger.error(`Blocked content preview: ${inputPreview}`)
+      this.auditDetection(
+        vardResult.detectedThreats,
+        'blocked',
+        'verification model gave no verdict'
+      )
       return {
         isSuspicious: true,
         shouldBlockContent: true,
@@ -143,6 +161,11 @@ export class PromptInjectionDetector {
     logger.info(
       `Vard detection was false positive after LLM verification: ${vardResult.detectedThreats.join(', ')}`
     )
+    this.auditDetection(
+      vardResult.detectedThreats,
+      'success',
+      'false positive according to verification model'
+    )
 
     return {
       isSuspicious: true,
@@ -153,6 +176,20 @@ export class PromptInjectionDetector {
     }
   }
 
+  private auditDetection(
+    threats: string[],
+    result: 'success' | 'blocked',
+    reason: string
+  ): void {
+    auditToolCall({
+      toolName: INJECTION_DETECTION_AUDIT_NAME,
+      parameters: { threats },
+      sessionId: 'injection-detector',
+      result,
+      reason
+    })
+  }
+
   private normalizeForDetection(input: string): string {
     return input
       .normalize('NFC')
@@ -233,6 +270,8 @@ Consider:
 
 Respond with a JSON object only: {"verdict":"INJECTION"} or {"verdict":"SAFE"}. When in doubt, respond with SAFE.`
 
+    // The LLM client retries HTTP and network errors; an empty or unparsable
+    // verdict would block the content, so the question is asked again
     let latestResult: VerificationResult = {
       decision: 'UNKNOWN',
       model: this.config.verificationModel,
@@ -244,10 +283,6 @@ Respond with a JSON object only: {"verdict":"INJECTION"} or {"verdict":"SAFE"}.
       if (latestResult.decision !== 'UNKNOWN') {
         return latestResult
       }
-
-      if (attempt < VERIFICATION_MAX_ATTEMPTS) {
-        await delay(VERIFICATION_RETRY_BASE_DELAY_MS * attempt)
-      }
     }
 
     return latestResult
@@ -446,13 +481,15 @@ Respond with a JSON object only: {"verdict":"INJECTION"} or {"verdict":"SAFE"}.
 }
 
 export function createPromptInjectionDetector(
-  apiKey: string,
+  connection: ProviderConnection,
   verificationModel: string,
-  enabled: boolean = true
+  enabled: boolean = true,
+  fallbackModels: string[] = []
 ): PromptInjectionDetector {
   return new PromptInjectionDetector({
-    apiKey,
+    connection,
     verificationModel,
+    fallbackModels,
     enabled
   })
 }
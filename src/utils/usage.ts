@@ -0,0 +1,113 @@
+/**
+ * Token and cost ledger for a single action run.
+ *
+ * LLM calls happen in many places (intent classification, injection
+ * verification, comment validation and the OpenCode agent), so usage is
+ * collected in one module-level ledger, like the tool call audit log.
+ */
+
+import type { USAGE_CATEGORIES } from '../config/constants.js'
+import { logger } from './logger.js'
+
+export type UsageCategory = (typeof USAGE_CATEGORIES)[number]
+
+export type TokenUsage = {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+export type UsageBudget = {
+  maxCostUsd: number | null
+  maxTokens: number | null
+}
+
+const ledger = new Map<UsageCategory, TokenUsage>()
+let budget: UsageBudget = { maxCostUsd: null, maxTokens: null }
+
+function emptyUsage(): TokenUsage {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0
+  }
+}
+
+export function recordUsage(
+  category: UsageCategory,
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    costUsd?: number
+    requests?: number
+  }
+): void {
+  const entry = ledger.get(category) ?? emptyUsage()
+
+  entry.requests += usage.requests ?? 1
+  entry.promptTokens += usage.promptTokens
+  entry.completionTokens += usage.completionTokens
+  entry.totalTokens += usage.promptTokens + usage.completionTokens
+  entry.costUsd += usage.costUsd ?? 0
+  ledger.set(category, entry)
+
+  logger.debug(
+    `[USAGE] ${category}: +${usage.promptTokens + usage.completionTokens} tokens, +$${(usage.costUsd ?? 0).toFixed(4)}`
+  )
+}
+
+/**
+ * Usage per category, in the order categories were first used
+ */
+export function getUsageByCategory(): Array<
+  { category: UsageCategory } & TokenUsage
+> {
+  return [...ledger.entries()].map(([category, usage]) => ({
+    category,
+    ...usage
+  }))
+}
+
+export function getTotalUsage(): TokenUsage {
+  const total = emptyUsage()
+
+  for (const usage of ledger.values()) {
+    total.requests += usage.requests
+    total.promptTokens += usage.promptTokens
+    total.completionTokens += usage.completionTokens
+    total.totalTokens += usage.totalTokens
+    total.costUsd += usage.costUsd
+  }
+
+  return total
+}
+
+export function setUsageBudget(limits: UsageBudget): void {
+  budget = { ...limits }
+}
+
+/**
+ * Describe the exceeded limit, or null while the run is within budget
+ */
+export function getBudgetExceededReason(): string | null {
+  const total = getTotalUsage()
+
+  if (budget.maxCostUsd !== null && total.costUsd >= budget.maxCostUsd) {
+    return `cost $${total.costUsd.toFixed(4)} reached the limit of $${budget.maxCostUsd.toFixed(2)}`
+  }
+
+  if (budget.maxTokens !== null && total.totalTokens >= budget.maxTokens) {
+    return `${total.totalTokens} tokens reached the limit of ${budget.maxTokens}`
+  }
+
+  return null
+}
+
+export function clearUsage(): void {
+  ledger.clear()
+  budget = { maxCostUsd: null, maxTokens: null }
+}